@@ -0,0 +1,258 @@
+import { createHash } from "node:crypto";
+import { readFile, readdir, stat } from "node:fs/promises";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+
+/**
+ * Failure modes the mock catalog server can simulate.
+ */
+export const MOCK_SCENARIOS = [
+  "ok", // Serve the fixture as recorded
+  "slow", // Serve the fixture after SLOW_LATENCY_MS
+  "malformed", // Corrupt a few devices so they fail validation
+  "partial", // Cut the body off halfway, leaving invalid JSON
+  "no-devices", // Valid JSON without a devices list
+  "server-error", // 500
+  "unavailable", // 503
+  "rate-limited", // 429
+  "forbidden", // 403
+  "not-found", // 404
+  "flaky", // Alternate between 503 and success
+  "hang", // Never respond, so the client times out
+  "network-error", // Drop the connection without a response
+] as const;
+
+export type MockScenario = (typeof MOCK_SCENARIOS)[number];
+
+const isMockScenario = (value: string): value is MockScenario =>
+  (MOCK_SCENARIOS as readonly string[]).includes(value);
+
+/**
+ * Options for the mock catalog server plugin.
+ */
+export interface MockCatalogServerOptions {
+  path?: string; // Endpoint the middleware answers on
+  fixturesDir?: string; // Directory holding <name>.json DeviceResponse fixtures
+}
+
+const DEFAULT_PATH = "/__mock/catalog";
+const DEFAULT_FIXTURES_DIR = new URL("./fixtures/", import.meta.url);
+const SLOW_LATENCY_MS = 3000;
+
+const ERROR_STATUSES: Partial<Record<MockScenario, number>> = {
+  "server-error": 500,
+  unavailable: 503,
+  "rate-limited": 429,
+  forbidden: 403,
+  "not-found": 404,
+};
+
+type JsonObject = Record<string, unknown>;
+
+const sendJson = (res: ServerResponse, status: number, body: string) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(body);
+};
+
+// Resolves after ms, or early if the client goes away
+const delay = (ms: number, req: IncomingMessage) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0) return resolve();
+    const timer = setTimeout(resolve, ms);
+    req.once("close", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+// A fixture as loaded from disk, with the file's modification time
+interface Fixture {
+  data: JsonObject;
+  modifiedAt: Date;
+}
+
+// Fixture names are file names, so only allow simple identifiers
+const readFixture = async (
+  fixturesDir: string | URL,
+  name: string
+): Promise<Fixture | null> => {
+  if (!/^[\w-]+$/.test(name)) return null;
+  try {
+    const file = new URL(`${name}.json`, fixturesDir);
+    const [text, stats] = await Promise.all([
+      readFile(file, "utf8"),
+      stat(file),
+    ]);
+    // HTTP dates have second precision
+    const modifiedAt = new Date(Math.floor(stats.mtimeMs / 1000) * 1000);
+    return { data: JSON.parse(text) as JsonObject, modifiedAt };
+  } catch {
+    return null;
+  }
+};
+
+// Serves an unmodified fixture like a real static host: with ETag and
+// Last-Modified, answering matching conditional requests with 304
+const sendFixture = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  fixture: Fixture
+) => {
+  const body = JSON.stringify(fixture.data);
+  const etag = `"${createHash("sha1").update(body).digest("hex").slice(0, 16)}"`;
+  const lastModified = fixture.modifiedAt.toUTCString();
+  const ifNoneMatch = req.headers["if-none-match"];
+  const ifModifiedSince = req.headers["if-modified-since"];
+
+  res.setHeader("ETag", etag);
+  res.setHeader("Last-Modified", lastModified);
+
+  // If-None-Match wins over If-Modified-Since when both are sent
+  const notModified = ifNoneMatch
+    ? ifNoneMatch === etag
+    : !!ifModifiedSince &&
+      fixture.modifiedAt.getTime() <= new Date(ifModifiedSince).getTime();
+
+  if (notModified) {
+    res.statusCode = 304;
+    res.setHeader("Cache-Control", "no-store");
+    res.end();
+    return;
+  }
+
+  sendJson(res, 200, body);
+};
+
+// Breaks a handful of devices in ways the schema should catch, and adds a
+// field the schema doesn't know so the drift report has something to show
+const corruptDevices = (fixture: JsonObject): JsonObject => {
+  const devices = structuredClone(fixture.devices) as JsonObject[];
+  const [first, second, third] = devices;
+
+  if (first) delete first.sku;
+  if (second) second.product = { ...(second.product as object), name: 42 };
+  if (third) third.icon = { id: null, resolutions: "n/a" };
+  devices.forEach((device) => {
+    device.regulatoryRegion = "NA";
+  });
+
+  return { ...fixture, devices };
+};
+
+/**
+ * Vite dev-server plugin that serves recorded DeviceResponse fixtures and can
+ * simulate latency, HTTP errors, malformed devices and partial payloads.
+ *
+ * Query parameters on the endpoint:
+ * - `scenario` - one of MOCK_SCENARIOS (default "ok"); anything else is a 400
+ * - `fixture` - fixture file name without `.json` (default "default")
+ * - `latency` - extra delay in milliseconds before responding
+ * - `status` - respond with this HTTP status instead of the fixture
+ *
+ * Unmodified fixtures are sent with ETag and Last-Modified headers, and
+ * matching If-None-Match/If-Modified-Since requests get a 304.
+ *
+ * Only active for `vite dev`; production builds never include it.
+ *
+ * @example
+ * ```ts
+ * // vite.config.ts
+ * plugins: [react(), mockCatalogServer()]
+ *
+ * // GET /__mock/catalog?scenario=malformed&latency=500
+ * ```
+ */
+export const mockCatalogServer = (
+  options: MockCatalogServerOptions = {}
+): Plugin => {
+  const path = options.path ?? DEFAULT_PATH;
+  const fixturesDir = options.fixturesDir ?? DEFAULT_FIXTURES_DIR;
+  let flakyRequests = 0;
+
+  return {
+    name: "mock-catalog-server",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use(path, async (req, res) => {
+        const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+        const requestedScenario = params.get("scenario") || "ok";
+        if (!isMockScenario(requestedScenario)) {
+          // A typo would otherwise quietly serve the happy path
+          sendJson(
+            res,
+            400,
+            JSON.stringify({
+              error: `Unknown scenario "${requestedScenario}"`,
+              available: MOCK_SCENARIOS,
+            })
+          );
+          return;
+        }
+        const scenario = requestedScenario;
+        const fixtureName = params.get("fixture") || "default";
+        const latency =
+          Number(params.get("latency")) ||
+          (scenario === "slow" ? SLOW_LATENCY_MS : 0);
+
+        await delay(latency, req);
+        if (res.destroyed) return;
+
+        if (scenario === "hang") {
+          // Leave the request open; the client's timeout has to kick in
+          return;
+        }
+
+        if (scenario === "network-error") {
+          req.socket.destroy();
+          return;
+        }
+
+        const status =
+          Number(params.get("status")) ||
+          ERROR_STATUSES[scenario] ||
+          (scenario === "flaky" && flakyRequests++ % 2 === 0 ? 503 : 200);
+
+        if (status !== 200) {
+          sendJson(res, status, JSON.stringify({ error: `Mock ${status}` }));
+          return;
+        }
+
+        const fixture = await readFixture(fixturesDir, fixtureName);
+        if (!fixture) {
+          const available = await readdir(fixturesDir).catch(() => []);
+          sendJson(
+            res,
+            404,
+            JSON.stringify({
+              error: `Unknown fixture "${fixtureName}"`,
+              available: available.map((file) => file.replace(/\.json$/, "")),
+            })
+          );
+          return;
+        }
+
+        switch (scenario) {
+          case "malformed":
+            sendJson(res, 200, JSON.stringify(corruptDevices(fixture.data)));
+            return;
+          case "partial": {
+            const body = JSON.stringify(fixture.data);
+            sendJson(res, 200, body.slice(0, Math.floor(body.length / 2)));
+            return;
+          }
+          case "no-devices":
+            sendJson(
+              res,
+              200,
+              JSON.stringify({ version: fixture.data.version })
+            );
+            return;
+          default:
+            sendFixture(req, res, fixture);
+        }
+      });
+    },
+  };
+};
@@ -1,45 +1,119 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, Suspense, lazy } from "react";
 import { useDevices } from "./hooks/useDevices";
 import { useDeviceFilters } from "./hooks/useDeviceFilters";
+import { useSearchHistory } from "./hooks/useSearchHistory";
+import { useControllerVersion } from "./hooks/useControllerVersion";
 import { DeviceToolbar } from "./components/DeviceToolbar";
 import { DeviceView } from "./components/DeviceView";
+import { NoResults } from "./components/NoResults";
+import { FilterChips } from "./components/FilterChips";
 import { LoadingSpinner } from "./components/LoadingSpinner";
 import { ErrorMessage } from "./components/ErrorMessage";
+import { CachedCatalogNotice } from "./components/CachedCatalogNotice";
+import { ValidationDiagnostics } from "./components/diagnostics/ValidationDiagnostics";
 import { DeviceDetailRoute } from "./components/devicedetails/DeviceDetailRoute";
 import { type ViewMode, type Device } from "./types/device";
-import { Routes, Route, useNavigate, useLocation } from "react-router-dom";
+import { REGION_FACET, splitFacetValues } from "./utils/deviceFacets";
+import { getRegulatoryRegion } from "./utils/regulatoryRegions";
+import {
+  Routes,
+  Route,
+  Link,
+  useNavigate,
+  useLocation,
+} from "react-router-dom";
 import styles from "./App.module.css";
 import { UbiquitiLogo } from "./components/icons/UbiquitiLogo";
 
+// Lazy load the changes and identify views; most sessions never open them
+const CatalogChanges = lazy(() =>
+  import("./components/catalogchanges/CatalogChanges").then((module) => ({
+    default: module.CatalogChanges,
+  }))
+);
+const IdentifyDevice = lazy(() =>
+  import("./components/identify/IdentifyDevice").then((module) => ({
+    default: module.IdentifyDevice,
+  }))
+);
+
 // Main app component that handles the overall layout and routing.
 // Manages device data, view modes, search, and filters.
 // Routes between the device list and individual device details.
 const App = () => {
-  const { devices, loading, error, refetch } = useDevices();
+  const {
+    devices,
+    catalog,
+    loading,
+    attempt,
+    maxAttempts,
+    error,
+    failure,
+    staleSince,
+    refetch,
+  } = useDevices();
   const [viewMode, setViewMode] = useState<ViewMode>("grid");
   const navigate = useNavigate();
   const location = useLocation();
 
+  // Substituted fields by device id, for the "degraded data" badges
+  const degradedDevices = useMemo(
+    () =>
+      new Map(
+        (catalog?.degradedDevices ?? []).map((entry) => [
+          entry.deviceId,
+          entry.substitutedFields,
+        ])
+      ),
+    [catalog]
+  );
+
+  const controllerVersion = useControllerVersion();
   const {
     query,
     productLineFilter,
+    facetSelection,
+    filters,
+    facetGroups,
+    hideIncompatible,
+    incompatibleDevices,
+    sorting,
     fullyFilteredDevices,
+    searchSuggestion,
+    searchIndex,
+    searchSynonyms,
+    matchedFields,
     setQuery,
     setProductLineFilter,
-  } = useDeviceFilters(devices);
+    setQueryAndProductLineFilter,
+    setFacetValues,
+    setHideIncompatible,
+    setFilters,
+    setSorting,
+    buildSearchParams,
+  } = useDeviceFilters(devices, controllerVersion.parsed);
+  const searchHistory = useSearchHistory(filters);
+
+  // Regions picked in the region selector, badged on the cards
+  const selectedRegions = useMemo(
+    () =>
+      splitFacetValues(facetSelection[REGION_FACET]).include.flatMap(
+        (id) => getRegulatoryRegion(id) || []
+      ),
+    [facetSelection]
+  );
 
   useEffect(() => {
     document.title =
       "Kevin Davis | Ubiquiti Viewer" + (query.trim() ? ` - ${query}` : "");
   }, [query, location]);
 
-  // Helper function to build search params string
-  const buildSearchParams = () => {
-    const params = new URLSearchParams();
-    if (query.trim()) params.set("q", query.trim());
-    if (productLineFilter.length > 0)
-      params.set("lines", productLineFilter.join(","));
-    return params.toString();
+  // Open a device's detail page, keeping the current filters for the way back
+  const openDevice = (d: Device) => {
+    const params = buildSearchParams();
+    navigate(
+      `/devices/${encodeURIComponent(d.id)}${params ? `?${params}` : ""}`
+    );
   };
 
   // Handle logo click to reset filters and go home
@@ -63,22 +137,47 @@ const App = () => {
           </button>
           <h1 className={styles.title}>Devices</h1>
         </span>
-        <a
-          href="https://github.com/modernkd/ubiquiti-viewer"
-          className={styles.authorLink}
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          Kevin Davis
-        </a>
+        <span className={styles.headerLinks}>
+          <ValidationDiagnostics
+            issues={catalog?.validationIssues ?? []}
+            degradedDevices={catalog?.degradedDevices ?? []}
+            schemaDrift={catalog?.schemaDrift}
+          />
+          <Link to="/identify" className={styles.authorLink}>
+            Identify
+          </Link>
+          <Link to="/changes" className={styles.authorLink}>
+            Changes
+          </Link>
+          <a
+            href="https://github.com/modernkd/ubiquiti-viewer"
+            className={styles.authorLink}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            Kevin Davis
+          </a>
+        </span>
       </header>
       <div className={styles.container}>
         <div className={styles.content}>
-          {loading && <LoadingSpinner />}
+          {loading && (
+            <LoadingSpinner attempt={attempt} maxAttempts={maxAttempts} />
+          )}
+
+          {error && !devices && (
+            <ErrorMessage error={failure} onRetry={refetch} />
+          )}
 
-          {error && <ErrorMessage message={error} onRetry={refetch} />}
+          {staleSince !== null && (
+            <CachedCatalogNotice
+              fetchedAt={staleSince}
+              version={catalog?.version}
+              onRetry={refetch}
+            />
+          )}
 
-          {devices && !loading && !error && (
+          {devices && !loading && (
             <>
               <Routes>
                 <Route
@@ -94,26 +193,76 @@ const App = () => {
                           totalDevices={fullyFilteredDevices.length}
                           productLineFilter={productLineFilter}
                           setProductLineFilter={setProductLineFilter}
+                          setQueryAndProductLineFilter={
+                            setQueryAndProductLineFilter
+                          }
+                          filters={filters}
+                          setFilters={setFilters}
+                          facetGroups={facetGroups}
+                          setFacetValues={setFacetValues}
+                          controllerVersion={controllerVersion}
+                          hideIncompatible={hideIncompatible}
+                          setHideIncompatible={setHideIncompatible}
+                          incompatibleCount={incompatibleDevices.size}
+                          onOpenDevice={openDevice}
                           devices={fullyFilteredDevices}
+                          searchIndex={searchIndex}
+                          searchSynonyms={searchSynonyms}
+                          searchHistory={searchHistory}
                         />
                       </div>
-                      <DeviceView
-                        viewMode={viewMode}
-                        filtered={fullyFilteredDevices}
-                        onOpen={(d: Device) => {
-                          const params = buildSearchParams();
-                          navigate(
-                            `/devices/${encodeURIComponent(d.id)}${
-                              params ? `?${params}` : ""
-                            }`
-                          );
-                        }}
+                      <FilterChips
+                        filters={filters}
+                        groups={facetGroups}
+                        onFiltersChange={setFilters}
+                        controllerVersion={controllerVersion.version}
                       />
+                      {fullyFilteredDevices.length === 0 ? (
+                        <NoResults
+                          query={query}
+                          suggestion={searchSuggestion}
+                          onSearch={setQuery}
+                        />
+                      ) : (
+                        <DeviceView
+                          viewMode={viewMode}
+                          filtered={fullyFilteredDevices}
+                          degradedDevices={degradedDevices}
+                          matchedFields={matchedFields}
+                          regions={selectedRegions}
+                          incompatibleDevices={incompatibleDevices}
+                          sorting={sorting}
+                          onSortingChange={setSorting}
+                          onOpen={openDevice}
+                        />
+                      )}
                     </div>
                   }
                 />
 
                 <Route path="/devices/:id" element={<DeviceDetailRoute />} />
+
+                <Route
+                  path="/identify"
+                  element={
+                    <Suspense
+                      fallback={<LoadingSpinner message="Loading identify..." />}
+                    >
+                      <IdentifyDevice />
+                    </Suspense>
+                  }
+                />
+
+                <Route
+                  path="/changes"
+                  element={
+                    <Suspense
+                      fallback={<LoadingSpinner message="Loading changes..." />}
+                    >
+                      <CatalogChanges />
+                    </Suspense>
+                  }
+                />
               </Routes>
             </>
           )}
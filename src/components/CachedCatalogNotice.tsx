@@ -0,0 +1,61 @@
+import React from "react";
+import styles from "./CachedCatalogNotice.module.css";
+
+/**
+ * Props for the CachedCatalogNotice component.
+ */
+interface CachedCatalogNoticeProps {
+  /**
+   * Epoch millis when the catalog being shown was fetched.
+   */
+  fetchedAt: number;
+  /**
+   * Optional catalog version of the cached data.
+   */
+  version?: string;
+  /**
+   * Optional callback to retry the network refresh.
+   */
+  onRetry?: () => void;
+}
+
+/**
+ * CachedCatalogNotice component shown when the network refresh failed and the
+ * app is rendering the last persisted catalog instead.
+ *
+ * @param props - The component props
+ * @param props.fetchedAt - When the cached catalog was fetched
+ * @param props.version - Catalog version of the cached data
+ * @param props.onRetry - Function called when retry is clicked
+ *
+ * @example
+ * ```tsx
+ * <CachedCatalogNotice fetchedAt={staleSince} onRetry={refetch} />
+ * ```
+ */
+export const CachedCatalogNotice: React.FC<CachedCatalogNoticeProps> = ({
+  fetchedAt,
+  version,
+  onRetry,
+}) => {
+  const fetchedDate = new Date(fetchedAt).toLocaleString();
+
+  return (
+    <div className={styles.notice} role="status">
+      <span className={styles.text}>
+        Showing cached catalog from {fetchedDate}
+        {version ? ` (version ${version})` : ""} — the latest data could not be
+        loaded.
+      </span>
+      {onRetry && (
+        <button
+          className={styles.retryButton}
+          onClick={onRetry}
+          aria-label="Retry loading the latest catalog"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
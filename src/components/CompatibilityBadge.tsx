@@ -0,0 +1,35 @@
+import React from "react";
+import styles from "./CompatibilityBadge.module.css";
+
+/**
+ * Props for the CompatibilityBadge component.
+ */
+interface CompatibilityBadgeProps {
+  /**
+   * Minimum Network application version that can adopt the device.
+   */
+  requiredVersion: string;
+}
+
+/**
+ * CompatibilityBadge component that flags a device the user's Network
+ * application version can't adopt, with the version it needs.
+ *
+ * @param props - The component props
+ * @param props.requiredVersion - Minimum controller version for the device
+ *
+ * @example
+ * ```tsx
+ * <CompatibilityBadge requiredVersion="9.0.108" />
+ * ```
+ */
+export const CompatibilityBadge: React.FC<CompatibilityBadgeProps> = ({
+  requiredVersion,
+}) => (
+  <span
+    className={styles.compatibilityBadge}
+    title={`Your Network version can't adopt this device; it needs ${requiredVersion} or newer`}
+  >
+    Needs Network {requiredVersion}
+  </span>
+);
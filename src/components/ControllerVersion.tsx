@@ -0,0 +1,183 @@
+import React, { useEffect, useRef, useState } from "react";
+import { parseVersion } from "../utils/controllerCompatibility";
+import styles from "./ControllerVersion.module.css";
+
+/**
+ * Props for the ControllerVersion component.
+ */
+interface ControllerVersionProps {
+  /**
+   * The Network application version entered, or "" when not set.
+   */
+  version: string;
+  /**
+   * Callback with a new valid version, or "" to clear it.
+   */
+  onVersionChange: (version: string) => void;
+  /**
+   * Whether devices the controller can't adopt are hidden.
+   */
+  hideIncompatible: boolean;
+  /**
+   * Callback to show or hide devices the controller can't adopt.
+   */
+  onHideIncompatibleChange: (hide: boolean) => void;
+  /**
+   * Number of catalog devices the entered version can't adopt.
+   */
+  incompatibleCount: number;
+}
+
+/**
+ * ControllerVersion component: a toolbar menu where the user enters their
+ * UniFi Network application version once. Devices whose minimum adoption or
+ * firmware requirement is newer are flagged, and can be hidden.
+ *
+ * @param props - The component props
+ * @param props.version - Entered controller version
+ * @param props.onVersionChange - Function called with a new version
+ * @param props.hideIncompatible - Whether incompatible devices are hidden
+ * @param props.onHideIncompatibleChange - Function to toggle hiding them
+ * @param props.incompatibleCount - Devices the version can't adopt
+ *
+ * @example
+ * ```tsx
+ * <ControllerVersion
+ *   version={controllerVersion.version}
+ *   onVersionChange={controllerVersion.setVersion}
+ *   hideIncompatible={hideIncompatible}
+ *   onHideIncompatibleChange={setHideIncompatible}
+ *   incompatibleCount={incompatibleDevices.size}
+ * />
+ * ```
+ */
+export const ControllerVersion: React.FC<ControllerVersionProps> = ({
+  version,
+  onVersionChange,
+  hideIncompatible,
+  onHideIncompatibleChange,
+  incompatibleCount,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(version);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isDraftValid = !draft.trim() || parseVersion(draft) !== null;
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleToggle = () => {
+    if (!isOpen) setDraft(version);
+    setIsOpen(!isOpen);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isDraftValid) onVersionChange(draft);
+  };
+
+  const handleClear = () => {
+    setDraft("");
+    onVersionChange("");
+  };
+
+  return (
+    <div
+      className={styles.container}
+      ref={containerRef}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") setIsOpen(false);
+      }}
+    >
+      <button
+        className={`${styles.toggle} ${version ? styles.active : ""}`}
+        onClick={handleToggle}
+        aria-label="Network application version"
+        aria-expanded={isOpen}
+      >
+        {version ? `Network ${version}` : "Network version"}
+      </button>
+      {isOpen && (
+        <div className={styles.panel}>
+          <form className={styles.versionForm} onSubmit={handleSubmit}>
+            <label className={styles.versionLabel} htmlFor="controller-version">
+              Your UniFi Network version
+            </label>
+            <div className={styles.versionRow}>
+              <input
+                id="controller-version"
+                className={`${styles.versionInput} ${
+                  isDraftValid ? "" : styles.invalid
+                }`}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder="e.g. 8.6.9"
+                aria-invalid={!isDraftValid}
+                aria-describedby={
+                  isDraftValid ? undefined : "controller-version-error"
+                }
+                autoFocus
+              />
+              <button
+                type="submit"
+                className={styles.saveButton}
+                disabled={!isDraftValid || draft.trim() === version}
+              >
+                Save
+              </button>
+            </div>
+            {!isDraftValid && (
+              <span
+                id="controller-version-error"
+                className={styles.error}
+                role="alert"
+              >
+                Enter a version like 8.6.9
+              </span>
+            )}
+          </form>
+
+          {version && (
+            <p className={styles.summary}>
+              {incompatibleCount === 0
+                ? "Every device can be adopted by this version."
+                : `${incompatibleCount} device${
+                    incompatibleCount !== 1 ? "s need" : " needs"
+                  } a newer version.`}
+            </p>
+          )}
+
+          <label className={styles.hideOption}>
+            <input
+              type="checkbox"
+              checked={hideIncompatible}
+              disabled={!version}
+              onChange={(e) => onHideIncompatibleChange(e.target.checked)}
+            />
+            Hide devices this version can't adopt
+          </label>
+
+          <button
+            className={styles.clearButton}
+            onClick={handleClear}
+            disabled={!version}
+          >
+            Forget version
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
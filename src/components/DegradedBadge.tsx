@@ -0,0 +1,42 @@
+import React from "react";
+import styles from "./DegradedBadge.module.css";
+
+/**
+ * Props for the DegradedBadge component.
+ */
+interface DegradedBadgeProps {
+  /**
+   * Required fields that were filled in with safe defaults when the device
+   * was rebuilt. May be empty if only optional data failed validation.
+   */
+  substitutedFields: string[];
+}
+
+/**
+ * DegradedBadge component that flags a device rebuilt by createSafeDevice
+ * after it failed schema validation. The tooltip lists which fields were
+ * substituted so users know which values not to trust.
+ *
+ * @param props - The component props
+ * @param props.substitutedFields - Fields replaced with safe defaults
+ *
+ * @example
+ * ```tsx
+ * <DegradedBadge substitutedFields={["sku", "product.name"]} />
+ * ```
+ */
+export const DegradedBadge: React.FC<DegradedBadgeProps> = ({
+  substitutedFields,
+}) => {
+  const description =
+    substitutedFields.length > 0
+      ? `Failed validation; substituted fields: ${substitutedFields.join(", ")}`
+      : "Failed validation; some optional data was kept without validation";
+
+  return (
+    <span className={styles.degradedBadge} title={description}>
+      Degraded data
+      <span className={styles.srOnly}>: {description}</span>
+    </span>
+  );
+};
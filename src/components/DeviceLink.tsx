@@ -0,0 +1,36 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import type { Device } from "../types/device";
+import styles from "./DeviceLink.module.css";
+
+/**
+ * Props for the DeviceLink component.
+ */
+interface DeviceLinkProps {
+  /**
+   * The device to link to.
+   */
+  device: Device;
+}
+
+/**
+ * DeviceLink component that links to a device's detail page, labelled with
+ * its name and SKU.
+ *
+ * @param props - The component props
+ * @param props.device - Device to link to
+ *
+ * @example
+ * ```tsx
+ * <DeviceLink device={candidate.device} />
+ * ```
+ */
+export const DeviceLink: React.FC<DeviceLinkProps> = ({ device }) => (
+  <Link
+    to={`/devices/${encodeURIComponent(device.id)}`}
+    className={styles.deviceLink}
+  >
+    {device.product?.name || device.id}
+    {device.sku && <span className={styles.sku}>{device.sku}</span>}
+  </Link>
+);
@@ -2,7 +2,22 @@ import React from "react";
 import { SearchBar } from "./SearchBar";
 import { ViewToggle } from "./ViewToggle";
 import { DeviceFilters } from "./devicelist/DeviceFilters";
+import { FacetPanel } from "./devicelist/FacetPanel";
+import { SavedSearches } from "./SavedSearches";
+import { RegionSelect } from "./RegionSelect";
+import { ControllerVersion } from "./ControllerVersion";
 import type { Device } from "../types/device";
+import type { SearchEntry } from "../types/search";
+import type { SearchIndex } from "../utils/searchIndex";
+import {
+  PRODUCT_LINE_FACET,
+  REGION_FACET,
+  setFacetValueState,
+  type FacetGroup,
+} from "../utils/deviceFacets";
+import type { SearchSynonyms } from "../config/searchSynonyms";
+import type { SearchHistory } from "../hooks/useSearchHistory";
+import type { ControllerVersion as ControllerVersionState } from "../hooks/useControllerVersion";
 import styles from "../App.module.css";
 
 /**
@@ -30,7 +45,8 @@ interface DeviceToolbarProps {
    */
   totalDevices: number;
   /**
-   * Current product line filter values (array for multi-select).
+   * Current product line filter values (array for multi-select); excluded
+   * lines are prefixed with "-".
    */
   productLineFilter: string[];
   /**
@@ -38,18 +54,74 @@ interface DeviceToolbarProps {
    */
   setProductLineFilter: (value: string[]) => void;
   /**
-   * Array of devices to extract product lines from.
+   * Callback to update the search filter and product line filter together.
+   */
+  setQueryAndProductLineFilter: (query: string, lines: string[]) => void;
+  /**
+   * The search query and every filter currently applied, offered for saving.
+   */
+  filters: SearchEntry;
+  /**
+   * Callback to replace the query and every filter, e.g. with a saved search.
+   */
+  setFilters: (filters: SearchEntry) => void;
+  /**
+   * Product line and spec facets with live counts (see buildFacetGroups).
+   */
+  facetGroups: FacetGroup[];
+  /**
+   * Callback to update the selected values of one or more facets.
+   */
+  setFacetValues: (changes: Record<string, string[]>) => void;
+  /**
+   * The user's Network application version (see useControllerVersion).
+   */
+  controllerVersion: ControllerVersionState;
+  /**
+   * Whether devices the controller can't adopt are hidden.
+   */
+  hideIncompatible: boolean;
+  /**
+   * Callback to show or hide devices the controller can't adopt.
+   */
+  setHideIncompatible: (hide: boolean) => void;
+  /**
+   * Number of catalog devices the controller can't adopt.
+   */
+  incompatibleCount: number;
+  /**
+   * Callback to open a device's detail page, e.g. from autocomplete.
+   */
+  onOpenDevice: (device: Device) => void;
+  /**
+   * Devices currently shown, for search suggestions.
    */
   devices: Device[];
+  /**
+   * Search index of the whole catalog, for autocomplete.
+   */
+  searchIndex: SearchIndex;
+  /**
+   * Synonym dictionary autocomplete expands typed words with.
+   */
+  searchSynonyms: SearchSynonyms;
+  /**
+   * Recent and saved searches (see useSearchHistory).
+   */
+  searchHistory: SearchHistory;
 }
 
 /**
  * DeviceToolbar component providing search, filtering, and view controls for device listings.
  *
  * This toolbar component includes:
- * - Search bar for global device filtering
+ * - Search bar for global device filtering, with recent and saved searches
  * - Device count display
- * - Product line filter dropdown
+ * - Product line filter dropdown with counts, a filter box and "only"/"invert"
+ * - Regulatory region selector
+ * - Network application version, to flag and hide devices it can't adopt
+ * - Spec facet panel with live counts
+ * - Saved searches menu
  * - View mode toggle (grid/list)
  *
  * The toolbar is split into left and right sections for optimal layout.
@@ -62,7 +134,20 @@ interface DeviceToolbarProps {
  * @param props.totalDevices - Number of devices shown
  * @param props.productLineFilter - Current product line filter
  * @param props.setProductLineFilter - Function to update product line filter
+ * @param props.setQueryAndProductLineFilter - Function to update both filters at once
+ * @param props.filters - Query and filters currently applied
+ * @param props.setFilters - Function to replace the query and every filter
+ * @param props.facetGroups - Spec facets with counts
+ * @param props.setFacetValues - Function to update facet selections
+ * @param props.controllerVersion - The user's Network application version
+ * @param props.hideIncompatible - Whether incompatible devices are hidden
+ * @param props.setHideIncompatible - Function to toggle hiding them
+ * @param props.incompatibleCount - Devices the controller can't adopt
+ * @param props.onOpenDevice - Function to open a device chosen in autocomplete
  * @param props.uniqueProductLines - Available product lines for filtering
+ * @param props.searchIndex - Catalog search index for autocomplete
+ * @param props.searchSynonyms - Synonym dictionary for autocomplete
+ * @param props.searchHistory - Recent and saved searches
  *
  * @example
  * ```tsx
@@ -74,7 +159,18 @@ interface DeviceToolbarProps {
  *   totalDevices={devices.length}
  *   productLineFilter={selectedLine}
  *   setProductLineFilter={setSelectedLine}
+ *   setQueryAndProductLineFilter={setSearchAndLines}
+ *   facetGroups={facetGroups}
+ *   setFacetValues={setFacetValues}
+ *   controllerVersion={controllerVersion}
+ *   hideIncompatible={hideIncompatible}
+ *   setHideIncompatible={setHideIncompatible}
+ *   incompatibleCount={incompatibleDevices.size}
+ *   onOpenDevice={openDevice}
  *   uniqueProductLines={productLines}
+ *   searchIndex={searchIndex}
+ *   searchSynonyms={searchSynonyms}
+ *   searchHistory={searchHistory}
  * />
  * ```
  */
@@ -86,8 +182,24 @@ export const DeviceToolbar: React.FC<DeviceToolbarProps> = ({
   totalDevices,
   productLineFilter,
   setProductLineFilter,
+  setQueryAndProductLineFilter,
+  filters,
+  setFilters,
+  facetGroups,
+  setFacetValues,
+  controllerVersion,
+  hideIncompatible,
+  setHideIncompatible,
+  incompatibleCount,
+  onOpenDevice,
   devices,
+  searchIndex,
+  searchSynonyms,
+  searchHistory,
 }) => {
+  const getFacetOptions = (facetKey: string) =>
+    facetGroups.find(({ key }) => key === facetKey)?.options || [];
+
   return (
     <div className={styles.toolbar}>
       <div className={styles.toolbarLeft}>
@@ -95,18 +207,48 @@ export const DeviceToolbar: React.FC<DeviceToolbarProps> = ({
           value={globalFilter}
           onChange={setGlobalFilter}
           devices={devices}
+          searchIndex={searchIndex}
+          searchSynonyms={searchSynonyms}
+          selectedLines={productLineFilter}
+          onOpenDevice={onOpenDevice}
+          onSelectLine={(line, query) =>
+            setQueryAndProductLineFilter(
+              query,
+              setFacetValueState(productLineFilter, line, "include")
+            )
+          }
+          savedSearches={searchHistory.saved}
+          recentSearches={searchHistory.recent}
+          onApplySearch={setFilters}
         />
         <span className={styles.deviceCount}>
           {totalDevices} device{totalDevices !== 1 ? "s" : ""}
         </span>
       </div>
       <div className={styles.toolbarRight}>
+        <SavedSearches
+          history={searchHistory}
+          current={filters}
+          onApply={setFilters}
+        />
+        <RegionSelect
+          regions={getFacetOptions(REGION_FACET)}
+          onChange={(regions) => setFacetValues({ [REGION_FACET]: regions })}
+        />
+        <ControllerVersion
+          version={controllerVersion.version}
+          onVersionChange={controllerVersion.setVersion}
+          hideIncompatible={hideIncompatible}
+          onHideIncompatibleChange={setHideIncompatible}
+          incompatibleCount={incompatibleCount}
+        />
         <ViewToggle viewMode={viewMode} onViewModeChange={setViewMode} />
         <DeviceFilters
-          devices={devices}
+          lines={getFacetOptions(PRODUCT_LINE_FACET)}
           selectedFilters={productLineFilter}
           onFiltersChange={setProductLineFilter}
         />
+        <FacetPanel groups={facetGroups} onChange={setFacetValues} />
       </div>
     </div>
   );
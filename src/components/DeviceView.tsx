@@ -3,6 +3,9 @@ import type { Device } from "../types/device";
 import { ErrorBoundary } from "./ErrorBoundary";
 import { logBoundaryError } from "../utils/errorUtils";
 import { LoadingSpinner } from "./LoadingSpinner";
+import type { FieldMatch } from "../utils/searchIndex";
+import type { RegulatoryRegion } from "../utils/regulatoryRegions";
+import type { DeviceSort } from "../utils/deviceSort";
 
 // Lazy load heavy components for code splitting
 const DeviceList = lazy(() => import("./devicelist/DeviceList").then(module => ({ default: module.DeviceList })));
@@ -24,6 +27,34 @@ interface DeviceViewProps {
    * Callback function called when a device is selected/opened.
    */
   onOpen: (device: Device) => void;
+  /**
+   * Optional substituted fields by device id, for devices rebuilt after
+   * failing validation. Those devices get a "degraded data" badge.
+   */
+  degradedDevices?: Map<string, string[]>;
+  /**
+   * Optional identifier matches by device id, for devices the search found
+   * through a field that isn't displayed (FCC ID, GUID, legacy name, ...).
+   */
+  matchedFields?: Map<string, FieldMatch>;
+  /**
+   * Optional selected regulatory regions, badged on grid cards.
+   */
+  regions?: RegulatoryRegion[];
+  /**
+   * Optional required controller versions by device id, for devices the
+   * user's Network application version can't adopt.
+   */
+  incompatibleDevices?: Map<string, string>;
+  /**
+   * Optional sort keys in priority order, shown on the list headers. Devices
+   * arrive already sorted, so grid view follows the same order.
+   */
+  sorting?: DeviceSort;
+  /**
+   * Optional callback when a list header is clicked to change the sort.
+   */
+  onSortingChange?: (sorting: DeviceSort) => void;
 }
 
 
@@ -41,6 +72,12 @@ interface DeviceViewProps {
  * @param props.viewMode - Current view mode selection
  * @param props.filtered - Devices to display (already filtered)
  * @param props.onOpen - Function called when device is opened
+ * @param props.degradedDevices - Substituted fields of rebuilt devices
+ * @param props.matchedFields - Identifier matches from the search
+ * @param props.regions - Selected regulatory regions
+ * @param props.incompatibleDevices - Devices the controller can't adopt
+ * @param props.sorting - Current sort keys
+ * @param props.onSortingChange - Function called with the new sort
  *
  * @example
  * ```tsx
@@ -55,6 +92,12 @@ export const DeviceView: React.FC<DeviceViewProps> = ({
   viewMode,
   filtered,
   onOpen,
+  degradedDevices,
+  matchedFields,
+  regions,
+  incompatibleDevices,
+  sorting,
+  onSortingChange,
 }) => {
   // Devices are already filtered at the parent level
 
@@ -63,7 +106,15 @@ export const DeviceView: React.FC<DeviceViewProps> = ({
       onError={(error, errorInfo) => logBoundaryError(error, errorInfo, 'DeviceList')}
     >
       <Suspense fallback={<LoadingSpinner message="Loading device list..." />}>
-        <DeviceList devices={filtered} onOpen={onOpen} />
+        <DeviceList
+          devices={filtered}
+          onOpen={onOpen}
+          degradedDevices={degradedDevices}
+          matchedFields={matchedFields}
+          incompatibleDevices={incompatibleDevices}
+          sorting={sorting}
+          onSortingChange={onSortingChange}
+        />
       </Suspense>
     </ErrorBoundary>
   ) : (
@@ -71,7 +122,14 @@ export const DeviceView: React.FC<DeviceViewProps> = ({
       onError={(error, errorInfo) => logBoundaryError(error, errorInfo, 'DeviceGrid')}
     >
       <Suspense fallback={<LoadingSpinner message="Loading device grid..." />}>
-        <DeviceGrid devices={filtered} onOpen={onOpen} />
+        <DeviceGrid
+          devices={filtered}
+          onOpen={onOpen}
+          degradedDevices={degradedDevices}
+          matchedFields={matchedFields}
+          regions={regions}
+          incompatibleDevices={incompatibleDevices}
+        />
       </Suspense>
     </ErrorBoundary>
   );
@@ -1,5 +1,6 @@
 import React from "react";
 import styles from "./ErrorMessage.module.css";
+import { describeError } from "../utils/errorUtils";
 
 /**
  * Props for the ErrorMessage component.
@@ -7,8 +8,14 @@ import styles from "./ErrorMessage.module.css";
 interface ErrorMessageProps {
   /**
    * The error message to display to the user.
+   * Defaults to the message derived from `error` when one is given.
    */
-  message: string;
+  message?: string;
+  /**
+   * Optional typed error (see utils/appErrors). Drives the title, the
+   * remediation hint and whether retrying is offered.
+   */
+  error?: unknown;
   /**
    * Optional callback function to retry the failed operation.
    */
@@ -20,13 +27,14 @@ interface ErrorMessageProps {
  *
  * This component provides user-friendly error display with:
  * - Alert icon for visual error indication
- * - Clear error title and descriptive message
- * - Optional retry button with loading icon
+ * - Category-specific title, message and remediation hint for typed errors
+ * - Optional retry button, hidden when the error category isn't retryable
  * - Accessible button with proper ARIA labels
  * - Consistent styling for error states across the app
  *
  * @param props - The component props
  * @param props.message - Error message text to display
+ * @param props.error - Typed error to describe
  * @param props.onRetry - Optional function to call when retry is clicked
  *
  * @example
@@ -35,12 +43,18 @@ interface ErrorMessageProps {
  *   message="Failed to load devices"
  *   onRetry={() => fetchDevices()}
  * />
+ *
+ * <ErrorMessage error={failure} onRetry={refetch} />
  * ```
  */
 export const ErrorMessage: React.FC<ErrorMessageProps> = ({
   message,
+  error,
   onRetry,
 }) => {
+  const descriptor = error !== undefined ? describeError(error) : null;
+  const canRetry = onRetry && (descriptor?.retryable ?? true);
+
   return (
     <div className={styles.errorMessage}>
       <div className={styles.errorIcon}>
@@ -76,9 +90,12 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({
           />
         </svg>
       </div>
-      <h3 className={styles.errorTitle}>Something went wrong</h3>
-      <p className={styles.errorText}>{message}</p>
-      {onRetry && (
+      <h3 className={styles.errorTitle}>
+        {descriptor?.title ?? "Something went wrong"}
+      </h3>
+      <p className={styles.errorText}>{message ?? descriptor?.message}</p>
+      {descriptor && <p className={styles.errorHint}>{descriptor.hint}</p>}
+      {canRetry && (
         <button
           className={styles.retryButton}
           onClick={onRetry}
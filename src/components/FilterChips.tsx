@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  getFacetGroupValues,
+  setFacetValueState,
+  type FacetGroup,
+} from "../utils/deviceFacets";
+import type { FilterState } from "../hooks/useDeviceFilters";
+import styles from "./FilterChips.module.css";
+
+/**
+ * Props for the FilterChips component.
+ */
+interface FilterChipsProps {
+  /**
+   * The search query and every filter currently applied.
+   */
+  filters: FilterState;
+  /**
+   * Facets with their options' states (see buildFacetGroups), for labels.
+   */
+  groups: FacetGroup[];
+  /**
+   * Callback with the filters after a chip is removed, "clear all" or undo.
+   */
+  onFiltersChange: (filters: FilterState) => void;
+  /**
+   * Optional Network application version, named on the compatibility chip.
+   */
+  controllerVersion?: string;
+}
+
+// One removable chip and the filters without it
+interface Chip {
+  id: string;
+  text: string;
+  excluded?: boolean;
+  without: FilterState;
+}
+
+// The filters before the last removal, offered back until they change again
+interface UndoEntry {
+  description: string;
+  previous: FilterState;
+  afterKey: string;
+}
+
+const NO_FILTERS: FilterState = {
+  query: "",
+  selection: {},
+  hideIncompatible: false,
+};
+
+// Compares filter states the way the URL stores them: trimmed query, no
+// empty facets, facet order ignored
+const getFiltersKey = ({ query, selection, hideIncompatible }: FilterState) =>
+  JSON.stringify([
+    query.trim(),
+    Object.keys(selection)
+      .filter((key) => selection[key].length > 0)
+      .sort()
+      .map((key) => [key, selection[key]]),
+    hideIncompatible,
+  ]);
+
+/**
+ * FilterChips component: a chip bar under the toolbar listing the search
+ * query and every included or excluded filter value, so active filters stay
+ * visible with the dropdowns closed. Each chip can be removed on its own,
+ * "Clear all" removes everything, and the last removal can be undone until
+ * the filters change again. Excluded values read "not …" and are struck
+ * through.
+ *
+ * @param props - The component props
+ * @param props.filters - Query and filters currently applied
+ * @param props.groups - Facets with option states
+ * @param props.onFiltersChange - Function called with the new filters
+ * @param props.controllerVersion - Network version for the compatibility chip
+ *
+ * @example
+ * ```tsx
+ * <FilterChips
+ *   filters={filters}
+ *   groups={facetGroups}
+ *   onFiltersChange={setFilters}
+ *   controllerVersion={controllerVersion.version}
+ * />
+ * ```
+ */
+export const FilterChips: React.FC<FilterChipsProps> = ({
+  filters,
+  groups,
+  onFiltersChange,
+  controllerVersion,
+}) => {
+  const [undo, setUndo] = useState<UndoEntry | null>(null);
+  const undoButtonRef = useRef<HTMLButtonElement>(null);
+  const canUndo = undo !== null && undo.afterKey === getFiltersKey(filters);
+
+  // Keyboard focus would be lost with the removed chip; offer undo instead
+  useEffect(() => {
+    if (undo) undoButtonRef.current?.focus();
+  }, [undo]);
+
+  const chips: Chip[] = [];
+  if (filters.query.trim()) {
+    chips.push({
+      id: "query",
+      text: `Search: "${filters.query.trim()}"`,
+      without: { ...filters, query: "" },
+    });
+  }
+  for (const group of groups) {
+    for (const option of group.options) {
+      if (option.state === "neutral") continue;
+      const excluded = option.state === "exclude";
+      chips.push({
+        id: `${group.key}:${option.value}`,
+        text: `${group.label}: ${excluded ? "not " : ""}${option.label}`,
+        excluded,
+        without: {
+          ...filters,
+          selection: {
+            ...filters.selection,
+            [group.key]: setFacetValueState(
+              getFacetGroupValues(group),
+              option.value,
+              "neutral"
+            ),
+          },
+        },
+      });
+    }
+  }
+  if (filters.hideIncompatible) {
+    chips.push({
+      id: "compatible",
+      text: controllerVersion
+        ? `Adoptable by Network ${controllerVersion}`
+        : "Adoptable by my Network version",
+      without: { ...filters, hideIncompatible: false },
+    });
+  }
+
+  const apply = (next: FilterState, description: string) => {
+    setUndo({ description, previous: filters, afterKey: getFiltersKey(next) });
+    onFiltersChange(next);
+  };
+
+  const handleUndo = () => {
+    if (!undo) return;
+    setUndo(null);
+    onFiltersChange(undo.previous);
+  };
+
+  if (chips.length === 0 && !canUndo) return null;
+
+  return (
+    <div className={styles.chipBar}>
+      {chips.length > 0 && (
+        <ul className={styles.chipList} aria-label="Active filters">
+          {chips.map((chip) => (
+            <li
+              key={chip.id}
+              className={`${styles.chip} ${chip.excluded ? styles.excluded : ""}`}
+            >
+              <span className={styles.chipText}>{chip.text}</span>
+              <button
+                className={styles.removeButton}
+                onClick={() => apply(chip.without, `Removed ${chip.text}`)}
+                aria-label={`Remove filter ${chip.text}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {chips.length > 1 && (
+        <button
+          className={styles.clearButton}
+          onClick={() => apply(NO_FILTERS, "Cleared all filters")}
+        >
+          Clear all
+        </button>
+      )}
+      {canUndo && (
+        <span className={styles.undo} role="status">
+          {undo.description}
+          <button
+            ref={undoButtonRef}
+            className={styles.undoButton}
+            onClick={handleUndo}
+          >
+            Undo
+          </button>
+        </span>
+      )}
+    </div>
+  );
+};
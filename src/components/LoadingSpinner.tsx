@@ -10,6 +10,14 @@ interface LoadingSpinnerProps {
    * @default "Loading devices..."
    */
   message?: string;
+  /**
+   * Optional 1-based attempt number; shown once a retry is under way.
+   */
+  attempt?: number;
+  /**
+   * Optional total number of attempts allowed, shown alongside `attempt`.
+   */
+  maxAttempts?: number;
 }
 
 /**
@@ -18,11 +26,14 @@ interface LoadingSpinnerProps {
  * This component provides visual feedback during loading states with:
  * - Animated CSS spinner for visual loading indication
  * - Customizable loading message
+ * - Retry attempt counter once a request has been retried
  * - Consistent styling for loading states across the app
  * - Centered layout for optimal user experience
  *
  * @param props - The component props
  * @param props.message - Text to display below the spinner
+ * @param props.attempt - Current attempt number
+ * @param props.maxAttempts - Total attempts allowed
  *
  * @example
  * ```tsx
@@ -33,12 +44,27 @@ interface LoadingSpinnerProps {
  * ```tsx
  * <LoadingSpinner /> // Uses default message
  * ```
+ *
+ * @example
+ * ```tsx
+ * <LoadingSpinner attempt={2} maxAttempts={4} /> // "Retrying (attempt 2 of 4)"
+ * ```
  */
-export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message = 'Loading devices...' }) => {
+export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
+  message = 'Loading devices...',
+  attempt,
+  maxAttempts,
+}) => {
   return (
-    <div className={styles.loadingSpinner}>
+    <div className={styles.loadingSpinner} role="status">
       <div className={styles.spinner}></div>
       <p className={styles.loadingText}>{message}</p>
+      {attempt !== undefined && attempt > 1 && (
+        <p className={styles.attemptText}>
+          Retrying (attempt {attempt}
+          {maxAttempts ? ` of ${maxAttempts}` : ''})
+        </p>
+      )}
     </div>
   );
 };
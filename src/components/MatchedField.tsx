@@ -0,0 +1,33 @@
+import React from "react";
+import type { FieldMatch } from "../utils/searchIndex";
+import styles from "./MatchedField.module.css";
+
+/**
+ * Props for the MatchedField component.
+ */
+interface MatchedFieldProps {
+  /**
+   * The identifier field and value the device was found through.
+   */
+  match: FieldMatch;
+}
+
+/**
+ * MatchedField component that tells the user why a search result showed up
+ * when the match was on a field the row doesn't display, such as an FCC ID,
+ * GUID or legacy name.
+ *
+ * @param props - The component props
+ * @param props.match - Field and value that matched the search
+ *
+ * @example
+ * ```tsx
+ * <MatchedField match={{ field: "fcc", label: "FCC ID", value: "SWX-U6PRO", identifier: true }} />
+ * // matched FCC ID SWX-U6PRO
+ * ```
+ */
+export const MatchedField: React.FC<MatchedFieldProps> = ({ match }) => (
+  <span className={styles.matchedField}>
+    matched {match.label} <code className={styles.value}>{match.value}</code>
+  </span>
+);
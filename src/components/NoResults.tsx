@@ -0,0 +1,60 @@
+import React from "react";
+import styles from "./NoResults.module.css";
+
+/**
+ * Props for the NoResults component.
+ */
+interface NoResultsProps {
+  /**
+   * The search query that found nothing.
+   */
+  query: string;
+  /**
+   * Optional corrected query to offer as "did you mean".
+   */
+  suggestion?: string | null;
+  /**
+   * Callback to search for a different query, e.g. the suggestion.
+   */
+  onSearch: (query: string) => void;
+}
+
+/**
+ * NoResults component shown in place of the device view when the search and
+ * filters match no devices. Offers a spelling correction when one exists.
+ *
+ * @param props - The component props
+ * @param props.query - Search query that found nothing
+ * @param props.suggestion - Corrected query to offer
+ * @param props.onSearch - Function called with the suggestion when clicked
+ *
+ * @example
+ * ```tsx
+ * <NoResults query="enterprse" suggestion="enterprise" onSearch={setQuery} />
+ * ```
+ */
+export const NoResults: React.FC<NoResultsProps> = ({
+  query,
+  suggestion,
+  onSearch,
+}) => (
+  <div className={styles.empty} role="status">
+    <p className={styles.title}>
+      {query.trim()
+        ? `No devices match "${query.trim()}"`
+        : "No devices match the current filters"}
+    </p>
+    {suggestion && (
+      <p className={styles.text}>
+        Did you mean{" "}
+        <button
+          className={styles.suggestion}
+          onClick={() => onSearch(suggestion)}
+        >
+          {suggestion}
+        </button>
+        ?
+      </p>
+    )}
+  </div>
+);
@@ -0,0 +1,40 @@
+import React from "react";
+import type { RegulatoryRegion } from "../utils/regulatoryRegions";
+import styles from "./RegionBadge.module.css";
+
+/**
+ * Props for the RegionBadge component.
+ */
+interface RegionBadgeProps {
+  /**
+   * The region the device is certified for.
+   */
+  region: RegulatoryRegion;
+  /**
+   * The region's certifications the device carries, e.g. ["FCC", "IC"].
+   */
+  marks: string[];
+}
+
+/**
+ * RegionBadge component that shows a device is certified for the selected
+ * regulatory region, naming the certifications that qualify it.
+ *
+ * @param props - The component props
+ * @param props.region - Certified region
+ * @param props.marks - Certifications the device carries there
+ *
+ * @example
+ * ```tsx
+ * <RegionBadge region={brazil} marks={["ANATEL"]} />
+ * ```
+ */
+export const RegionBadge: React.FC<RegionBadgeProps> = ({ region, marks }) => (
+  <span
+    className={styles.regionBadge}
+    title={`Certified for ${region.label}: ${marks.join(", ")}`}
+  >
+    {marks.join("/")}
+    <span className={styles.srOnly}> certified for {region.label}</span>
+  </span>
+);
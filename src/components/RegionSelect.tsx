@@ -0,0 +1,78 @@
+import React from "react";
+import { setFacetValueState, type FacetOption } from "../utils/deviceFacets";
+import { REGULATORY_REGIONS } from "../utils/regulatoryRegions";
+import styles from "./RegionSelect.module.css";
+
+/**
+ * Props for the RegionSelect component.
+ */
+interface RegionSelectProps {
+  /**
+   * Regions with live device counts (the "region" facet group). Regions no
+   * device is certified for are missing here but still listed, with 0.
+   */
+  regions: FacetOption[];
+  /**
+   * Callback with the region selection: an id, a "-" prefixed id to exclude
+   * it, or empty for all regions.
+   */
+  onChange: (regions: string[]) => void;
+}
+
+/**
+ * RegionSelect component: a toolbar selector that keeps only devices
+ * certified for one market (FCC/IC for North America, ANATEL for Brazil,
+ * RCM for Australia/New Zealand, JRF/JPA for Japan, NCC for Taiwan).
+ *
+ * Each region shows how many devices it would leave given the search and
+ * the other filters. A region can also be excluded, keeping only devices
+ * not certified there.
+ *
+ * @param props - The component props
+ * @param props.regions - Regions with counts
+ * @param props.onChange - Function called with the new selection
+ *
+ * @example
+ * ```tsx
+ * <RegionSelect
+ *   regions={regionOptions}
+ *   onChange={(region) => setFacetValues({ region })}
+ * />
+ * ```
+ */
+export const RegionSelect: React.FC<RegionSelectProps> = ({
+  regions,
+  onChange,
+}) => {
+  // One region at a time, as stored in the URL ("jp" or "-jp")
+  const current = regions.find(({ state }) => state !== "neutral");
+  const selected = current
+    ? setFacetValueState([], current.value, current.state)[0]
+    : "";
+
+  return (
+    <select
+      className={`${styles.regionSelect} ${selected ? styles.active : ""}`}
+      value={selected}
+      onChange={(e) => onChange(e.target.value ? [e.target.value] : [])}
+      aria-label="Filter by regulatory region"
+    >
+      <option value="">All regions</option>
+      {REGULATORY_REGIONS.map(({ id, label, marks }) => {
+        const count = regions.find(({ value }) => value === id)?.count || 0;
+        return (
+          <option key={id} value={id}>
+            {`${label} (${marks.join("/")}) · ${count}`}
+          </option>
+        );
+      })}
+      <optgroup label="Not certified for">
+        {REGULATORY_REGIONS.map(({ id, label }) => (
+          <option key={id} value={setFacetValueState([], id, "exclude")[0]}>
+            {`Not ${label}`}
+          </option>
+        ))}
+      </optgroup>
+    </select>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { SavedSearch, SearchEntry } from "../types/search";
+import type { SearchHistory } from "../hooks/useSearchHistory";
+import {
+  describeSearch,
+  exportSavedSearches,
+  isEmptySearch,
+} from "../utils/searchHistory";
+import styles from "./SavedSearches.module.css";
+
+/**
+ * Props for the SavedSearches component.
+ */
+interface SavedSearchesProps {
+  /**
+   * Recent and saved searches with the actions that change them.
+   */
+  history: SearchHistory;
+  /**
+   * The search currently applied, offered for saving.
+   */
+  current: SearchEntry;
+  /**
+   * Callback to apply a saved search (query and every filter).
+   */
+  onApply: (entry: SearchEntry) => void;
+}
+
+// Offers the saved searches as a JSON file download
+const downloadSavedSearches = (saved: SavedSearch[]) => {
+  const blob = new Blob([exportSavedSearches(saved)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "saved-searches.json";
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * SavedSearches component: a toolbar menu of named, pinned searches.
+ *
+ * The current search can be saved under a name. Saved searches can be applied,
+ * renamed inline, moved up or down, deleted and exported as JSON. They're kept
+ * in local storage by useSearchHistory, which also keeps the recent searches
+ * this menu can clear.
+ *
+ * @param props - The component props
+ * @param props.history - Searches and actions from useSearchHistory
+ * @param props.current - The search currently applied
+ * @param props.onApply - Function to apply a saved search
+ *
+ * @example
+ * ```tsx
+ * <SavedSearches
+ *   history={searchHistory}
+ *   current={filters}
+ *   onApply={setFilters}
+ * />
+ * ```
+ */
+export const SavedSearches: React.FC<SavedSearchesProps> = ({
+  history,
+  current,
+  onApply,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { saved } = history;
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    history.save(newName, current);
+    setNewName("");
+  };
+
+  const startRename = (search: SavedSearch) => {
+    setEditingId(search.id);
+    setEditingName(search.name);
+  };
+
+  const finishRename = () => {
+    if (editingId) history.rename(editingId, editingName);
+    setEditingId(null);
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      finishRename();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setEditingId(null);
+    }
+  };
+
+  const handleApply = (search: SavedSearch) => {
+    onApply({
+      query: search.query,
+      selection: search.selection,
+      hideIncompatible: search.hideIncompatible,
+    });
+    setIsOpen(false);
+  };
+
+  return (
+    <div
+      className={styles.container}
+      ref={containerRef}
+      onKeyDown={(e) => {
+        if (e.key === "Escape" && !editingId) setIsOpen(false);
+      }}
+    >
+      <button
+        className={`${styles.toggle} ${saved.length > 0 ? styles.active : ""}`}
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label="Saved searches"
+        aria-expanded={isOpen}
+      >
+        Saved{saved.length > 0 && ` (${saved.length})`}
+      </button>
+      {isOpen && (
+        <div className={styles.panel}>
+          <form className={styles.saveForm} onSubmit={handleSave}>
+            <input
+              className={styles.nameInput}
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder={describeSearch(current)}
+              aria-label="Name for the current search"
+              disabled={isEmptySearch(current)}
+            />
+            <button
+              type="submit"
+              className={styles.saveButton}
+              disabled={isEmptySearch(current)}
+            >
+              Save current
+            </button>
+          </form>
+
+          {saved.length === 0 ? (
+            <p className={styles.empty}>No saved searches yet.</p>
+          ) : (
+            <ul className={styles.list} aria-label="Saved searches">
+              {saved.map((search, index) => (
+                <li key={search.id} className={styles.item}>
+                  {editingId === search.id ? (
+                    <input
+                      className={styles.nameInput}
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={handleRenameKeyDown}
+                      onBlur={finishRename}
+                      aria-label={`Rename ${search.name}`}
+                      autoFocus
+                    />
+                  ) : (
+                    <button
+                      className={styles.itemName}
+                      onClick={() => handleApply(search)}
+                      title={describeSearch(search)}
+                    >
+                      {search.name}
+                      <span className={styles.itemDetail}>
+                        {describeSearch(search)}
+                      </span>
+                    </button>
+                  )}
+                  <span className={styles.itemActions}>
+                    <button
+                      onClick={() => history.move(search.id, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move ${search.name} up`}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => history.move(search.id, 1)}
+                      disabled={index === saved.length - 1}
+                      aria-label={`Move ${search.name} down`}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => startRename(search)}
+                      aria-label={`Rename ${search.name}`}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      className={styles.deleteButton}
+                      onClick={() => history.remove(search.id)}
+                      aria-label={`Delete ${search.name}`}
+                    >
+                      Delete
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className={styles.footer}>
+            <button
+              className={styles.exportButton}
+              onClick={() => downloadSavedSearches(saved)}
+              disabled={saved.length === 0}
+            >
+              Export as JSON
+            </button>
+            <button
+              className={styles.clearButton}
+              onClick={history.clearRecent}
+              disabled={history.recent.length === 0}
+            >
+              Clear recent searches
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -9,9 +9,16 @@ import styles from "./SearchBar.module.css";
 import type { Device } from "../types/device";
 import {
   generateAutocompleteSuggestions,
+  getTypedTerm,
   highlightMatchingText,
+  replaceTypedTerm,
   type AutocompleteSuggestion,
 } from "../utils/deviceFilters";
+import type { SearchIndex } from "../utils/searchIndex";
+import type { SearchSynonyms } from "../config/searchSynonyms";
+import type { RecentSearch, SavedSearch, SearchEntry } from "../types/search";
+import { describeSearch, isEmptySearch } from "../utils/searchHistory";
+import { parseSearchQuery } from "../utils/searchQuery";
 
 /**
  * Props for the SearchBar component.
@@ -31,29 +38,95 @@ interface SearchBarProps {
    */
   placeholder?: string;
   /**
-   * Array of devices to generate autocomplete suggestions from.
+   * Devices currently shown; autocomplete only suggests these.
    */
   devices: Device[];
+  /**
+   * Search index of the whole catalog, queried for autocomplete suggestions.
+   */
+  searchIndex: SearchIndex;
+  /**
+   * Synonym dictionary; devices found through synonyms of the typed words are suggested too.
+   */
+  searchSynonyms?: SearchSynonyms;
+  /**
+   * Product lines already filtered on; they aren't suggested again.
+   */
+  selectedLines?: string[];
+  /**
+   * Called when a device suggestion is chosen, to open its detail page.
+   * Without it, choosing a device searches for its name.
+   */
+  onOpenDevice?: (device: Device) => void;
+  /**
+   * Called when a product line suggestion is chosen, with the query minus the
+   * word that was being typed. Without it, choosing a line searches for it.
+   */
+  onSelectLine?: (line: string, query: string) => void;
+  /**
+   * Saved searches, listed when the search bar is focused and empty.
+   */
+  savedSearches?: SavedSearch[];
+  /**
+   * Recent searches, listed below saved ones when the search bar is focused and empty.
+   */
+  recentSearches?: RecentSearch[];
+  /**
+   * Called when a saved or recent search is chosen, to apply its query and filters.
+   * Without it, choosing one only sets the query.
+   */
+  onApplySearch?: (search: SearchEntry) => void;
 }
 
+// An entry in the dropdown: an autocomplete suggestion, or a remembered
+// search shown while the search bar is empty
+type DropdownItem =
+  | AutocompleteSuggestion
+  | {
+      kind: "saved" | "recent";
+      text: string;
+      detail: string;
+      search: SearchEntry;
+    };
+
+// Section headings in the dropdown, in display order
+const SECTION_LABELS: Record<DropdownItem["kind"], string> = {
+  saved: "Saved searches",
+  recent: "Recent searches",
+  device: "Devices",
+  line: "Product lines",
+  sku: "SKUs",
+  capability: "Capabilities",
+};
+
 /**
  * SearchBar component that provides a search input field with autocomplete suggestions.
  *
  * This component renders a search interface with:
  * - Search icon for visual indication
  * - Controlled input field for search text
- * - Autocomplete dropdown with device suggestions
+ * - Autocomplete dropdown grouped into devices, product lines, SKUs and capabilities
+ * - Saved and recent searches when focused while empty
  * - Keyboard navigation (arrow keys, enter, escape)
  * - Mouse interaction for suggestions
  * - Customizable placeholder text
  * - Proper accessibility with ARIA labels
+ * - Inline syntax errors for structured queries (`cap:poe ports>=24`)
  * - Consistent styling for search functionality
  *
  * @param props - The component props
  * @param props.value - Current search value
  * @param props.onChange - Function called on value change
  * @param props.placeholder - Input placeholder text
- * @param props.devices - Array of devices for suggestions
+ * @param props.devices - Devices shown, to limit suggestions to
+ * @param props.searchIndex - Catalog search index the suggestions come from
+ * @param props.searchSynonyms - Synonyms to expand typed words with ("camera" -> UniFi Protect)
+ * @param props.selectedLines - Product lines already filtered on
+ * @param props.onOpenDevice - Opens a chosen device's detail page
+ * @param props.onSelectLine - Applies a chosen product line filter
+ * @param props.savedSearches - Saved searches to offer while empty
+ * @param props.recentSearches - Recent searches to offer while empty
+ * @param props.onApplySearch - Applies a chosen saved or recent search
  *
  * @example
  * ```tsx
@@ -61,7 +134,17 @@ interface SearchBarProps {
  *   value={searchTerm}
  *   onChange={setSearchTerm}
  *   placeholder="Search devices..."
- *   devices={allDevices}
+ *   devices={visibleDevices}
+ *   searchIndex={searchIndex}
+ *   searchSynonyms={searchSynonyms}
+ *   selectedLines={productLineFilter}
+ *   onOpenDevice={openDevice}
+ *   onSelectLine={(line, query) =>
+ *     setQueryAndProductLineFilter(query, [...productLineFilter, line])
+ *   }
+ *   savedSearches={searchHistory.saved}
+ *   recentSearches={searchHistory.recent}
+ *   onApplySearch={setFilters}
  * />
  * ```
  */
@@ -70,6 +153,14 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   onChange,
   placeholder = "Search",
   devices,
+  searchIndex,
+  searchSynonyms,
+  selectedLines,
+  onOpenDevice,
+  onSelectLine,
+  savedSearches,
+  recentSearches,
+  onApplySearch,
 }) => {
   const [localValue, setLocalValue] = useState(value);
   const [isDropdownVisible, setIsDropdownVisible] = useState(false);
@@ -78,22 +169,72 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  // Generate suggestions with 150ms debounce
+  // Syntax errors are shown as the user types, without waiting for the debounce
+  const syntaxErrors = useMemo(
+    () => parseSearchQuery(localValue).errors,
+    [localValue]
+  );
+  const syntaxError = syntaxErrors[0];
+  const visibleDevices = useMemo(() => new Set(devices), [devices]);
+
+  // Generate suggestions with 150ms debounce.
+  // A broken structured query gets its error message instead.
   const suggestions = useMemo(() => {
-    if (localValue.length < 2) return [];
-    return generateAutocompleteSuggestions(devices, localValue);
-  }, [devices, localValue]);
+    if (localValue.length < 2 || syntaxError) return [];
+    return generateAutocompleteSuggestions(searchIndex, localValue, {
+      scope: visibleDevices,
+      synonyms: searchSynonyms,
+      selectedLines,
+    });
+  }, [
+    searchIndex,
+    localValue,
+    syntaxError,
+    visibleDevices,
+    searchSynonyms,
+    selectedLines,
+  ]);
+
+  // Saved and recent searches, offered while nothing is typed
+  const historyItems = useMemo((): DropdownItem[] => {
+    const saved = (savedSearches || []).map(
+      (search): DropdownItem => ({
+        kind: "saved",
+        text: search.name,
+        detail: describeSearch(search),
+        search,
+      })
+    );
+    const recent = (recentSearches || []).map((search): DropdownItem => {
+      // The query leads; the filters it ran with are the detail
+      const filters = { ...search, query: "" };
+      const filterText = isEmptySearch(filters) ? "" : describeSearch(filters);
+      return {
+        kind: "recent",
+        text: search.query || filterText,
+        detail: search.query ? filterText : "",
+        search,
+      };
+    });
+    return [...saved, ...recent];
+  }, [savedSearches, recentSearches]);
+
+  const items: DropdownItem[] = localValue.trim() ? suggestions : historyItems;
 
   // Update local value when prop changes
   useEffect(() => {
     setLocalValue(value);
   }, [value]);
 
-  // Show/hide dropdown based on suggestions and focus
+  // Show/hide dropdown based on suggestions and focus.
+  // Remembered searches only pop up while the user is in the search bar.
   useEffect(() => {
-    setIsDropdownVisible(suggestions.length > 0);
+    setIsDropdownVisible(
+      items.length > 0 &&
+        (items === suggestions || document.activeElement === inputRef.current)
+    );
     setSelectedIndex(-1);
-  }, [suggestions]);
+  }, [items, suggestions]);
 
   const debouncedOnChange = useCallback(
     (inputValue: string) => {
@@ -113,33 +254,92 @@ export const SearchBar: React.FC<SearchBarProps> = ({
     debouncedOnChange(newValue);
   };
 
-  const handleSuggestionSelect = (suggestion: AutocompleteSuggestion) => {
-    setLocalValue(suggestion.text);
+  // Drops a pending debounced update, so it can't undo what a suggestion did
+  const cancelPendingChange = () => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+  };
+
+  // Replaces the query right away
+  const commitQuery = (newValue: string) => {
+    cancelPendingChange();
+    setLocalValue(newValue);
+    onChange(newValue);
+  };
+
+  const handleSuggestionSelect = (suggestion: DropdownItem) => {
     setIsDropdownVisible(false);
     setSelectedIndex(-1);
-    onChange(suggestion.text);
+
+    switch (suggestion.kind) {
+      case "saved":
+      case "recent":
+        if (onApplySearch) {
+          cancelPendingChange();
+          setLocalValue(suggestion.search.query);
+          onApplySearch(suggestion.search);
+        } else {
+          commitQuery(suggestion.search.query);
+        }
+        break;
+      case "device":
+        if (onOpenDevice && suggestion.device) {
+          cancelPendingChange();
+          onOpenDevice(suggestion.device);
+        } else {
+          commitQuery(suggestion.text);
+        }
+        break;
+      case "line":
+        if (onSelectLine) {
+          cancelPendingChange();
+          const remaining = replaceTypedTerm(localValue, "");
+          setLocalValue(remaining);
+          onSelectLine(suggestion.text, remaining);
+        } else {
+          commitQuery(suggestion.text);
+        }
+        break;
+      case "sku":
+        commitQuery(suggestion.text);
+        break;
+      case "capability": {
+        // Completes the word being typed into a filter; the rest of the query stays
+        const value = /\s/.test(suggestion.text)
+          ? `"${suggestion.text}"`
+          : suggestion.text;
+        commitQuery(replaceTypedTerm(localValue, `cap:${value}`));
+        inputRef.current?.focus();
+        break;
+      }
+    }
   };
 
+  // Suggestion elements in display order; section headings sit between them
+  const getOptionElement = (index: number) =>
+    dropdownRef.current?.querySelectorAll<HTMLElement>('[role="option"]')[
+      index
+    ];
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (!isDropdownVisible || suggestions.length === 0) return;
+    if (!isDropdownVisible || items.length === 0) return;
 
     switch (e.key) {
       case "ArrowDown":
         e.preventDefault();
         setSelectedIndex((prev) =>
-          prev < suggestions.length - 1 ? prev + 1 : 0
+          prev < items.length - 1 ? prev + 1 : 0
         );
         break;
       case "ArrowUp":
         e.preventDefault();
         setSelectedIndex((prev) =>
-          prev > 0 ? prev - 1 : suggestions.length - 1
+          prev > 0 ? prev - 1 : items.length - 1
         );
         break;
       case "Enter":
         e.preventDefault();
-        if (selectedIndex >= 0 && selectedIndex < suggestions.length) {
-          handleSuggestionSelect(suggestions[selectedIndex]);
+        if (selectedIndex >= 0 && selectedIndex < items.length) {
+          handleSuggestionSelect(items[selectedIndex]);
         }
         break;
       case "Escape":
@@ -148,13 +348,13 @@ export const SearchBar: React.FC<SearchBarProps> = ({
         setSelectedIndex(-1);
         break;
       case "Tab":
-        // Allow default tab behavior to move focus to suggestions
+        // Allow default tab behavior to move focus to items
         break;
     }
   };
 
   const handleFocus = () => {
-    if (suggestions.length > 0) {
+    if (items.length > 0) {
       setIsDropdownVisible(true);
     }
   };
@@ -163,7 +363,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({
     switch (e.key) {
       case "Enter":
         e.preventDefault();
-        handleSuggestionSelect(suggestions[index]);
+        handleSuggestionSelect(items[index]);
         break;
       case "Escape":
         e.preventDefault();
@@ -173,20 +373,18 @@ export const SearchBar: React.FC<SearchBarProps> = ({
         break;
       case "ArrowDown": {
         e.preventDefault();
-        const nextIndex = index < suggestions.length - 1 ? index + 1 : 0;
+        const nextIndex = index < items.length - 1 ? index + 1 : 0;
         setSelectedIndex(nextIndex);
         // Focus the next suggestion
-        const nextElement = dropdownRef.current?.children[nextIndex] as HTMLElement;
-        nextElement?.focus();
+        getOptionElement(nextIndex)?.focus();
         break;
       }
       case "ArrowUp": {
         e.preventDefault();
-        const prevIndex = index > 0 ? index - 1 : suggestions.length - 1;
+        const prevIndex = index > 0 ? index - 1 : items.length - 1;
         setSelectedIndex(prevIndex);
         // Focus the previous suggestion
-        const prevElement = dropdownRef.current?.children[prevIndex] as HTMLElement;
-        prevElement?.focus();
+        getOptionElement(prevIndex)?.focus();
         break;
       }
     }
@@ -236,34 +434,77 @@ export const SearchBar: React.FC<SearchBarProps> = ({
         aria-haspopup="listbox"
         role="combobox"
         aria-autocomplete="list"
+        aria-invalid={!!syntaxError}
+        aria-describedby={syntaxError ? "search-syntax-error" : undefined}
       />
+      {syntaxError && (
+        <div
+          id="search-syntax-error"
+          className={styles.syntaxError}
+          role="alert"
+        >
+          <code className={styles.syntaxErrorFragment}>
+            {localValue.slice(syntaxError.start, syntaxError.end)}
+          </code>{" "}
+          {syntaxError.message}
+          {syntaxErrors.length > 1 && ` (+${syntaxErrors.length - 1} more)`}
+        </div>
+      )}
       {isDropdownVisible && (
         <div
           ref={dropdownRef}
           className={styles.suggestionsDropdown}
           role="listbox"
         >
-          {suggestions.map((suggestion, index) => (
-            <div
-              key={suggestion.text}
-              className={`${styles.suggestionItem} ${
-                index === selectedIndex ? styles.suggestionItemSelected : ""
-              }`}
-              onMouseDown={() => handleSuggestionSelect(suggestion)}
-              onFocus={() => setSelectedIndex(index)}
-              onKeyDown={(e) => handleSuggestionKeyDown(e, index)}
-              tabIndex={0}
-              role="option"
-              aria-selected={index === selectedIndex}
-            >
-              <span className={styles.suggestionText}>
-                {highlightMatchingText(suggestion.text, localValue)}
-              </span>
-              <span className={styles.suggestionShortname}>
-                {suggestion.shortname}
-              </span>
-            </div>
-          ))}
+          {(Object.keys(SECTION_LABELS) as DropdownItem["kind"][]).map((kind) => {
+            const section = items
+              .map((suggestion, index) => ({ suggestion, index }))
+              .filter(({ suggestion }) => suggestion.kind === kind);
+            if (section.length === 0) return null;
+
+            return (
+              <div
+                key={kind}
+                role="group"
+                aria-labelledby={`search-section-${kind}`}
+              >
+                <div
+                  id={`search-section-${kind}`}
+                  className={styles.suggestionSection}
+                >
+                  {SECTION_LABELS[kind]}
+                </div>
+                {section.map(({ suggestion, index }) => (
+                  <div
+                    key={`${kind}:${suggestion.text}`}
+                    className={`${styles.suggestionItem} ${
+                      index === selectedIndex
+                        ? styles.suggestionItemSelected
+                        : ""
+                    }`}
+                    onMouseDown={() => handleSuggestionSelect(suggestion)}
+                    onFocus={() => setSelectedIndex(index)}
+                    onKeyDown={(e) => handleSuggestionKeyDown(e, index)}
+                    tabIndex={0}
+                    role="option"
+                    aria-selected={index === selectedIndex}
+                  >
+                    <span className={styles.suggestionText}>
+                      {highlightMatchingText(
+                        suggestion.text,
+                        kind === "line" || kind === "capability"
+                          ? getTypedTerm(localValue) || localValue
+                          : localValue
+                      )}
+                    </span>
+                    <span className={styles.suggestionShortname}>
+                      {suggestion.detail}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,41 @@
+import React from "react";
+import type { FacetValueState } from "../utils/deviceFacets";
+import styles from "./TriStateCheckbox.module.css";
+
+/**
+ * Props for the TriStateCheckbox component.
+ */
+interface TriStateCheckboxProps {
+  /**
+   * Current state: included (✓), excluded (–) or not filtered (empty).
+   */
+  state: FacetValueState;
+  /**
+   * Optional class for the outer element.
+   */
+  className?: string;
+}
+
+/**
+ * TriStateCheckbox component: the box drawn next to a filter value that can
+ * be included, excluded or left out. It's presentational; the row around it
+ * handles clicks and announces the state.
+ *
+ * @param props - The component props
+ * @param props.state - Include, exclude or neutral
+ * @param props.className - Optional extra class
+ *
+ * @example
+ * ```tsx
+ * <TriStateCheckbox state={option.state} />
+ * ```
+ */
+export const TriStateCheckbox: React.FC<TriStateCheckboxProps> = ({
+  state,
+  className = "",
+}) => (
+  <span
+    className={`${styles.box} ${styles[state]} ${className}`}
+    aria-hidden="true"
+  />
+);
@@ -0,0 +1,145 @@
+import React, { useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useCatalogChanges } from "../../hooks/useCatalogChanges";
+import { formatChangeValue, type ModifiedDevice } from "../../utils/catalogDiff";
+import { LoadingSpinner } from "../LoadingSpinner";
+import { ErrorMessage } from "../ErrorMessage";
+import { DeviceLink } from "../DeviceLink";
+import styles from "./CatalogChanges.module.css";
+
+// A modified device with its field-level changes
+const ModifiedDeviceRow: React.FC<{ entry: ModifiedDevice }> = ({ entry }) => (
+  <li className={styles.modifiedItem}>
+    <DeviceLink device={entry.after} />
+    <table className={styles.changeTable}>
+      <thead>
+        <tr>
+          <th>Field</th>
+          <th>Before</th>
+          <th>After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entry.changes.map((change) => (
+          <tr key={change.path}>
+            <td className={styles.fieldPath}>{change.path}</td>
+            <td className={styles.before}>{formatChangeValue(change.before)}</td>
+            <td className={styles.after}>{formatChangeValue(change.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </li>
+);
+
+/**
+ * CatalogChanges route component that compares two recorded catalog versions.
+ *
+ * Versions are picked with two selects and kept in the URL (`?from=&to=`),
+ * defaulting to the two most recent versions the app has seen. Lists devices
+ * added, removed and modified, with a field-level diff for modified devices.
+ *
+ * @example
+ * ```tsx
+ * <Route path="/changes" element={<CatalogChanges />} />
+ * ```
+ */
+export const CatalogChanges: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { versions, fromVersion, toVersion, diff, loading, error } =
+    useCatalogChanges(searchParams.get("from"), searchParams.get("to"));
+
+  useEffect(() => {
+    document.title = "Kevin Davis | Ubiquiti Viewer - Catalog changes";
+  }, []);
+
+  const updateVersion = (key: "from" | "to", value: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.set(key, value);
+    setSearchParams(params, { replace: true });
+  };
+
+  if (loading) return <LoadingSpinner message="Loading catalog versions..." />;
+  if (error) return <ErrorMessage message={error} />;
+
+  if (versions.length < 2) {
+    return (
+      <div className={styles.catalogChanges}>
+        <h2 className={styles.title}>Catalog changes</h2>
+        <p className={styles.empty}>
+          {versions.length === 0
+            ? "No catalog versions have been recorded yet."
+            : `Only version ${versions[0].version} has been seen so far. Changes will appear once a new catalog version is published.`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.catalogChanges}>
+      <h2 className={styles.title}>Catalog changes</h2>
+      <div className={styles.pickers}>
+        {(["from", "to"] as const).map((key) => (
+          <label key={key} className={styles.picker}>
+            <span>{key === "from" ? "From version" : "To version"}</span>
+            <select
+              value={(key === "from" ? fromVersion : toVersion) ?? ""}
+              onChange={(e) => updateVersion(key, e.target.value)}
+            >
+              {versions.map((entry) => (
+                <option key={entry.version} value={entry.version}>
+                  {entry.version} — {new Date(entry.firstSeenAt).toLocaleDateString()}{" "}
+                  ({entry.deviceCount} devices)
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {!diff ? (
+        <p className={styles.empty}>
+          The snapshot for one of these versions is no longer available.
+        </p>
+      ) : (
+        <>
+          <section className={styles.section}>
+            <h3 className={styles.sectionTitle}>Added ({diff.added.length})</h3>
+            <ul className={styles.deviceList}>
+              {diff.added.map((device) => (
+                <li key={device.id}>
+                  <DeviceLink device={device} />
+                </li>
+              ))}
+            </ul>
+          </section>
+          <section className={styles.section}>
+            <h3 className={styles.sectionTitle}>
+              Removed ({diff.removed.length})
+            </h3>
+            <ul className={styles.deviceList}>
+              {diff.removed.map((device) => (
+                <li key={device.id} className={styles.removedItem}>
+                  {device.product?.name || device.id}
+                  {device.sku && <span className={styles.sku}>{device.sku}</span>}
+                </li>
+              ))}
+            </ul>
+          </section>
+          <section className={styles.section}>
+            <h3 className={styles.sectionTitle}>
+              Modified ({diff.modified.length})
+            </h3>
+            <ul className={styles.deviceList}>
+              {diff.modified.map((entry) => (
+                <ModifiedDeviceRow key={entry.id} entry={entry} />
+              ))}
+            </ul>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CatalogChanges;
@@ -1,20 +1,30 @@
 import React, { useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useDevices } from "../../hooks/useDevices";
+import { useControllerVersion } from "../../hooks/useControllerVersion";
+import {
+  getDeviceCompatibility,
+  getMinimumFirmwareVersion,
+} from "../../utils/controllerCompatibility";
 import { LoadingSpinner } from "../LoadingSpinner";
 import { ErrorMessage } from "../ErrorMessage";
 import { DeviceOpen } from "./DeviceOpen";
+import { NotFoundError } from "../../utils/appErrors";
 
 /**
  * DeviceDetailRoute
  * Loads the full devices list via the same endpoint as home (useDevices),
  * filters to the requested device by canonical id, and renders DeviceDetails.
+ * Warns when the user's Network application version can't adopt the device,
+ * and notes the oldest device firmware it supports.
  */
 export const DeviceDetailRoute: React.FC = () => {
   const params = useParams();
   const navigate = useNavigate();
   const routeId = params.id ? decodeURIComponent(params.id) : "";
-  const { devices, loading, error, refetch } = useDevices();
+  const { devices, loading, attempt, maxAttempts, error, failure, refetch } =
+    useDevices();
+  const controllerVersion = useControllerVersion();
 
   const device = useMemo(
     () => devices?.find((d) => String(d.id) === String(routeId)),
@@ -26,14 +36,36 @@ export const DeviceDetailRoute: React.FC = () => {
     navigate("/");
   };
 
-  if (loading) return <LoadingSpinner />;
-  if (error) return <ErrorMessage message={error} onRetry={refetch} />;
+  if (loading) {
+    return <LoadingSpinner attempt={attempt} maxAttempts={maxAttempts} />;
+  }
+  // A failed background refresh still leaves the cached catalog usable
+  if (error && !devices) {
+    return <ErrorMessage error={failure} onRetry={refetch} />;
+  }
   if (!devices || devices.length === 0) {
     return <ErrorMessage message="No devices available" onRetry={refetch} />;
   }
   if (!device) {
-    return <ErrorMessage message="Device not found" />;
+    return <ErrorMessage error={new NotFoundError("Device not found")} />;
   }
 
-  return <DeviceOpen device={device} onClose={handleClose} />;
+  const compatibility = getDeviceCompatibility(
+    device,
+    controllerVersion.parsed
+  );
+
+  return (
+    <DeviceOpen
+      device={device}
+      onClose={handleClose}
+      controllerVersion={controllerVersion.version}
+      requiredControllerVersion={
+        compatibility.status === "incompatible"
+          ? compatibility.requiredVersion
+          : undefined
+      }
+      minimumFirmwareVersion={getMinimumFirmwareVersion(device)}
+    />
+  );
 };
@@ -21,6 +21,21 @@ interface DeviceOpenProps {
    * Callback function called when the close button is clicked.
    */
   onClose: () => void;
+  /**
+   * The user's Network application version, shown in the warning.
+   */
+  controllerVersion?: string;
+  /**
+   * Set when the user's controller is too old to adopt the device; shows a
+   * warning banner with the version it needs.
+   */
+  requiredControllerVersion?: string;
+  /**
+   * Oldest device firmware the Network application supports for the device,
+   * shown as a note. It's a firmware version, so it never affects the
+   * adoption warning.
+   */
+  minimumFirmwareVersion?: string;
   /**
    * Callback function called when navigating to the previous device.
    */
@@ -40,12 +55,17 @@ interface DeviceOpenProps {
  * - Device header with name and product line
  * - Detailed device specifications
  * - Call-to-action for viewing raw JSON data
+ * - Warning when the user's Network version can't adopt the device
+ * - Note on the minimum device firmware, when published
  * - Proper ARIA attributes for accessibility
  * - Responsive layout with image and details columns
  *
  * @param props - The component props
  * @param props.device - Device object with complete device data
  * @param props.onClose - Function called when closing the detail view
+ * @param props.controllerVersion - The user's Network application version
+ * @param props.requiredControllerVersion - Version needed, when it's newer
+ * @param props.minimumFirmwareVersion - Minimum device firmware
  *
  * @example
  * ```tsx
@@ -59,6 +79,9 @@ export const DeviceOpen: React.FC<DeviceOpenProps> = ({
   device,
   filteredDevices,
   onClose,
+  controllerVersion,
+  requiredControllerVersion,
+  minimumFirmwareVersion,
   onPrevious,
   onNext,
 }) => {
@@ -123,6 +146,17 @@ export const DeviceOpen: React.FC<DeviceOpenProps> = ({
           </button>
         </div>
       </div>
+      {requiredControllerVersion && (
+        <div className={styles.compatibilityWarning} role="alert">
+          Needs UniFi Network {requiredControllerVersion} or newer to adopt
+          {controllerVersion ? `; you're running ${controllerVersion}` : ""}.
+        </div>
+      )}
+      {minimumFirmwareVersion && (
+        <p className={styles.firmwareNote}>
+          Needs device firmware {minimumFirmwareVersion} or newer.
+        </p>
+      )}
       <div className={styles.contentRow}>
         <DeviceImage device={device} />
         <div className={styles.detailCol}>
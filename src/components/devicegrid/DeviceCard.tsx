@@ -2,6 +2,15 @@ import React from "react";
 import { Link } from "react-router-dom";
 import { type Device } from "../../types/device";
 import { DeviceIcon } from "../DeviceIcon";
+import { DegradedBadge } from "../DegradedBadge";
+import { MatchedField } from "../MatchedField";
+import { RegionBadge } from "../RegionBadge";
+import { CompatibilityBadge } from "../CompatibilityBadge";
+import type { FieldMatch } from "../../utils/searchIndex";
+import {
+  getCertificationMarks,
+  type RegulatoryRegion,
+} from "../../utils/regulatoryRegions";
 import styles from "./DeviceCard.module.css";
 
 // Props for the DeviceCard component
@@ -9,15 +18,31 @@ interface DeviceCardProps {
   device: Device; // The device object to display
   onOpen?: (device: Device) => void; // Optional callback when card is clicked
   selected?: boolean; // Whether the card is currently selected/highlighted
+  substitutedFields?: string[]; // Set when the device was rebuilt after failing validation
+  matchedField?: FieldMatch; // Set when search matched a field the card doesn't show
+  regions?: RegulatoryRegion[]; // Selected regulatory regions, badged when certified
+  requiredControllerVersion?: string; // Set when the user's controller can't adopt the device
 }
 
 // DeviceCard component that displays a device in a card format for grid view.
 // Shows device icon, product abbreviation, name, and handles clicks.
+// Devices rebuilt from safe defaults get a "degraded data" badge, and devices
+// found through an identifier (FCC ID, GUID, ...) say which one matched.
+// While a region filter is on, the card names the certifications that qualify it,
+// and devices the user's controller can't adopt say which version they need.
 export const DeviceCard: React.FC<DeviceCardProps> = ({
   device,
   onOpen,
   selected = false,
+  substitutedFields,
+  matchedField,
+  regions = [],
+  requiredControllerVersion,
 }) => {
+  const certifications = regions
+    .map((region) => ({ region, marks: getCertificationMarks(device, region) }))
+    .filter(({ marks }) => marks.length > 0);
+
   return (
     <Link
       to={`/devices/${encodeURIComponent(device.id)}`}
@@ -38,6 +63,16 @@ export const DeviceCard: React.FC<DeviceCardProps> = ({
       <div className={styles.deviceInfo}>
         <h3 className={styles.deviceName}>{device.product.name}</h3>
         <p className={styles.deviceModel}>{device.product.abbrev}</p>
+        {matchedField && <MatchedField match={matchedField} />}
+        {certifications.map(({ region, marks }) => (
+          <RegionBadge key={region.id} region={region} marks={marks} />
+        ))}
+        {requiredControllerVersion && (
+          <CompatibilityBadge requiredVersion={requiredControllerVersion} />
+        )}
+        {substitutedFields && (
+          <DegradedBadge substitutedFields={substitutedFields} />
+        )}
       </div>
     </Link>
   );
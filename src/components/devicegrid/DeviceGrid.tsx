@@ -1,6 +1,8 @@
 import React from "react";
 import { type Device } from "../../types/device";
 import { DeviceCard } from "./DeviceCard";
+import type { FieldMatch } from "../../utils/searchIndex";
+import type { RegulatoryRegion } from "../../utils/regulatoryRegions";
 import styles from "./DeviceGrid.module.css";
 
 /**
@@ -15,6 +17,25 @@ interface DeviceGridProps {
    * Optional callback function called when a device card is clicked.
    */
   onOpen?: (device: Device) => void;
+  /**
+   * Optional substituted fields by device id for devices with degraded data.
+   */
+  degradedDevices?: Map<string, string[]>;
+  /**
+   * Optional identifier matches by device id, for devices the search found
+   * through a field the card doesn't show.
+   */
+  matchedFields?: Map<string, FieldMatch>;
+  /**
+   * Optional selected regulatory regions; cards badge the ones they're
+   * certified for.
+   */
+  regions?: RegulatoryRegion[];
+  /**
+   * Optional required controller versions by device id, for devices the
+   * user's Network application version can't adopt.
+   */
+  incompatibleDevices?: Map<string, string>;
 }
 
 /**
@@ -30,6 +51,10 @@ interface DeviceGridProps {
  * @param props - The component props
  * @param props.devices - Array of devices to display
  * @param props.onOpen - Optional callback when a device is selected
+ * @param props.degradedDevices - Optional substituted fields of rebuilt devices
+ * @param props.matchedFields - Optional identifier matches from the search
+ * @param props.regions - Optional selected regulatory regions
+ * @param props.incompatibleDevices - Optional devices the controller can't adopt
  *
  * @example
  * ```tsx
@@ -39,11 +64,26 @@ interface DeviceGridProps {
  * />
  * ```
  */
-export const DeviceGrid: React.FC<DeviceGridProps> = ({ devices, onOpen }) => {
+export const DeviceGrid: React.FC<DeviceGridProps> = ({
+  devices,
+  onOpen,
+  degradedDevices,
+  matchedFields,
+  regions,
+  incompatibleDevices,
+}) => {
   return (
     <div className={styles.deviceGrid}>
       {devices.map((device) => (
-        <DeviceCard key={device.id} device={device} onOpen={onOpen} />
+        <DeviceCard
+          key={device.id}
+          device={device}
+          onOpen={onOpen}
+          substitutedFields={degradedDevices?.get(device.id)}
+          matchedField={matchedFields?.get(device.id)}
+          regions={regions}
+          requiredControllerVersion={incompatibleDevices?.get(device.id)}
+        />
       ))}
     </div>
   );
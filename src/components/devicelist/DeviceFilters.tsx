@@ -1,5 +1,11 @@
-import React, { useState, useRef, useEffect } from "react";
-import type { Device } from "../../types/device";
+import React, { useState, useRef, useEffect, useId } from "react";
+import {
+  FACET_VALUE_STATE_LABELS,
+  nextFacetValueState,
+  setFacetValueState,
+  type FacetOption,
+} from "../../utils/deviceFacets";
+import { TriStateCheckbox } from "../TriStateCheckbox";
 import styles from "./DeviceFilters.module.css";
 import { sanitizeTextInput } from "../../utils/securityUtils";
 
@@ -8,11 +14,12 @@ import { sanitizeTextInput } from "../../utils/securityUtils";
  */
 interface DeviceFiltersProps {
   /**
-   * Array of devices to extract product lines from.
+   * Product lines with live device counts (the "lines" facet group).
    */
-  devices: Device[];
+  lines: FacetOption[];
   /**
-   * Currently selected product line filters.
+   * Currently selected product line filters; excluded lines are prefixed
+   * with "-".
    */
   selectedFilters: string[];
   /**
@@ -24,27 +31,52 @@ interface DeviceFiltersProps {
 /**
  * DeviceFilters component that provides a dropdown filter for product lines.
  *
- * Displays a filter icon that opens a dropdown with checkboxes for each unique product line.
- * Matches the design from provided SVGs with inactive/active states.
+ * Displays a filter icon that opens a dropdown listing each product line with
+ * the number of devices it would show. A filter box narrows a long list.
+ * Clicking a line cycles it through included, excluded and not filtered;
+ * "Only" shows just that line and "Invert" shows every line but it.
+ *
+ * The list is an ARIA multi-select listbox driven from the filter box:
+ * ArrowUp/ArrowDown/Home/End move the active line, Enter cycles it,
+ * Shift+Enter shows only it, Alt+Enter shows every other line and Escape
+ * closes the dropdown. ArrowDown on the filter button opens it.
+ *
+ * @param props - The component props
+ * @param props.lines - Product lines with counts
+ * @param props.selectedFilters - Selected product lines
+ * @param props.onFiltersChange - Function called with the new selection
+ *
+ * @example
+ * ```tsx
+ * <DeviceFilters
+ *   lines={lineOptions}
+ *   selectedFilters={productLineFilter}
+ *   onFiltersChange={setProductLineFilter}
+ * />
+ * ```
  */
 export const DeviceFilters: React.FC<DeviceFiltersProps> = ({
-  devices,
+  lines,
   selectedFilters,
   onFiltersChange,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [filterText, setFilterText] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const listboxRef = useRef<HTMLUListElement>(null);
+  const idPrefix = useId();
+  const listboxId = `${idPrefix}-lines`;
+  const getOptionId = (index: number) => `${idPrefix}-line-${index}`;
 
-  // Get unique product lines from devices
-  const productLines = React.useMemo(() => {
-    const lines = new Set<string>();
-    devices.forEach((device) => {
-      if (device.line?.name) {
-        lines.add(sanitizeTextInput(device.line.name));
-      }
-    });
-    return Array.from(lines).sort();
-  }, [devices]);
+  // Lines matching the filter box, by name
+  const visibleLines = React.useMemo(() => {
+    const term = filterText.trim().toLowerCase();
+    return term
+      ? lines.filter((line) => line.label.toLowerCase().includes(term))
+      : lines;
+  }, [lines, filterText]);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -61,30 +93,125 @@ export const DeviceFilters: React.FC<DeviceFiltersProps> = ({
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
+  // Keep the active line in view while moving through a long list
+  useEffect(() => {
+    if (!isOpen) return;
+    const options =
+      listboxRef.current?.querySelectorAll<HTMLElement>('[role="option"]');
+    options?.[activeIndex]?.scrollIntoView({ block: "nearest" });
+  }, [isOpen, activeIndex]);
+
+  const open = () => {
+    setFilterText("");
+    setActiveIndex(0);
+    setIsOpen(true);
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    buttonRef.current?.focus();
+  };
+
   const handleToggleDropdown = () => {
-    setIsOpen(!isOpen);
+    if (isOpen) {
+      setIsOpen(false);
+    } else {
+      open();
+    }
+  };
+
+  const handleButtonKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === "ArrowDown" && !isOpen) {
+      e.preventDefault();
+      open();
+    }
+  };
+
+  const handleCycleLine = (line: FacetOption) => {
+    onFiltersChange(
+      setFacetValueState(
+        selectedFilters,
+        line.value,
+        nextFacetValueState(line.state)
+      )
+    );
   };
 
-  const handleCheckboxChange = (line: string, checked: boolean) => {
-    const newFilters = checked
-      ? [...selectedFilters, line]
-      : selectedFilters.filter((f) => f !== line);
-    onFiltersChange(newFilters);
+  const handleOnly = (line: string) => {
+    onFiltersChange([line]);
+  };
+
+  const handleInvert = (line: string) => {
+    onFiltersChange(setFacetValueState([], line, "exclude"));
   };
 
   const handleReset = () => {
     onFiltersChange([]);
   };
 
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFilterText(e.target.value);
+    setActiveIndex(0);
+  };
+
+  const handleFilterKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const lastIndex = visibleLines.length - 1;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((prev) => (prev < lastIndex ? prev + 1 : 0));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex((prev) => (prev > 0 ? prev - 1 : lastIndex));
+        break;
+      case "Home":
+        e.preventDefault();
+        setActiveIndex(0);
+        break;
+      case "End":
+        e.preventDefault();
+        setActiveIndex(Math.max(lastIndex, 0));
+        break;
+      case "Enter": {
+        e.preventDefault();
+        const active = visibleLines[activeIndex];
+        if (!active) break;
+        if (e.shiftKey) {
+          handleOnly(active.value);
+        } else if (e.altKey) {
+          handleInvert(active.value);
+        } else {
+          handleCycleLine(active);
+        }
+        break;
+      }
+    }
+  };
+
   const isActive = selectedFilters.length > 0;
+  const activeLine = visibleLines[activeIndex];
 
   return (
-    <div className={styles.filterContainer} ref={dropdownRef}>
+    <div
+      className={styles.filterContainer}
+      ref={dropdownRef}
+      onKeyDown={(e) => {
+        if (e.key === "Escape" && isOpen) {
+          e.preventDefault();
+          close();
+        }
+      }}
+    >
       <button
+        ref={buttonRef}
         className={`${styles.filterButton} ${isActive ? styles.active : ""}`}
         onClick={handleToggleDropdown}
+        onKeyDown={handleButtonKeyDown}
         aria-label="Filter by product line"
         aria-expanded={isOpen}
+        aria-haspopup="listbox"
       >
         <div className={styles.filterIcon}>
           <span>Filter</span>
@@ -92,21 +219,93 @@ export const DeviceFilters: React.FC<DeviceFiltersProps> = ({
       </button>
       {isOpen && (
         <div className={styles.dropdown}>
-          <div className={styles.filterTitle}>Product line</div>
-          <div className={styles.checkboxList}>
-            {productLines.map((line) => (
-              <label key={line} className={styles.checkboxLabel}>
-                <input
-                  type="checkbox"
-                  checked={selectedFilters.includes(line)}
-                  onChange={(e) => handleCheckboxChange(line, e.target.checked)}
-                  className={styles.checkbox}
-                />
-                <span className={styles.checkboxCustom}></span>
-                <span className={styles.checkboxText}>{line}</span>
-              </label>
-            ))}
+          <div className={styles.filterTitle} id={`${idPrefix}-title`}>
+            Product line
           </div>
+          <input
+            className={styles.filterInput}
+            value={filterText}
+            onChange={handleFilterChange}
+            onKeyDown={handleFilterKeyDown}
+            placeholder="Filter product lines"
+            aria-label="Filter product lines"
+            role="combobox"
+            aria-expanded={true}
+            aria-controls={listboxId}
+            aria-activedescendant={
+              activeLine ? getOptionId(activeIndex) : undefined
+            }
+            aria-describedby={`${idPrefix}-hint`}
+            autoFocus
+          />
+          {visibleLines.length === 0 ? (
+            <p className={styles.emptyMessage}>No product lines match.</p>
+          ) : (
+            <ul
+              ref={listboxRef}
+              id={listboxId}
+              className={styles.checkboxList}
+              role="listbox"
+              aria-multiselectable={true}
+              aria-labelledby={`${idPrefix}-title`}
+              // Keep focus in the filter box so the keyboard keeps working
+              onMouseDown={(e) => e.preventDefault()}
+            >
+              {visibleLines.map((line, index) => {
+                const label = sanitizeTextInput(line.label);
+                return (
+                  <li
+                    key={line.value}
+                    id={getOptionId(index)}
+                    role="option"
+                    aria-selected={line.state === "include"}
+                    aria-label={`${label}, ${line.count} devices, ${
+                      FACET_VALUE_STATE_LABELS[line.state]
+                    }`}
+                    className={`${styles.checkboxLabel} ${
+                      index === activeIndex ? styles.activeOption : ""
+                    } ${
+                      line.count === 0 && line.state === "neutral"
+                        ? styles.emptyOption
+                        : ""
+                    } ${line.state === "exclude" ? styles.excludedOption : ""}`}
+                    onClick={() => handleCycleLine(line)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                  >
+                    <TriStateCheckbox state={line.state} />
+                    <span className={styles.checkboxText}>{label}</span>
+                    <span className={styles.lineCount}>{line.count}</span>
+                    <span className={styles.lineActions} aria-hidden="true">
+                      <button
+                        tabIndex={-1}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleOnly(line.value);
+                        }}
+                        title={`Show only ${label}`}
+                      >
+                        Only
+                      </button>
+                      <button
+                        tabIndex={-1}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleInvert(line.value);
+                        }}
+                        title={`Show every line except ${label}`}
+                      >
+                        Invert
+                      </button>
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <p className={styles.keyboardHint} id={`${idPrefix}-hint`}>
+            Enter cycles include, exclude and off; Shift+Enter shows only this
+            line; Alt+Enter shows every other line
+          </p>
           <button className={styles.resetButton} onClick={handleReset}>
             Reset
           </button>
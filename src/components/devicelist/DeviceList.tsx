@@ -4,20 +4,51 @@ import { type Device } from "../../types/device";
 import {
   useReactTable,
   getCoreRowModel,
+  functionalUpdate,
   type ColumnDef,
 } from "@tanstack/react-table";
 import { DeviceTable } from "./DeviceTable";
 import { DeviceIcon } from "../DeviceIcon";
+import { DegradedBadge } from "../DegradedBadge";
+import { CompatibilityBadge } from "../CompatibilityBadge";
+import { MatchedField } from "../MatchedField";
+import type { FieldMatch } from "../../utils/searchIndex";
+import { formatSpeed } from "../../utils/deviceFacets";
+import type { DeviceSort } from "../../utils/deviceSort";
 import styles from "./DeviceList.module.css";
 
 // Props for the DeviceList component
 interface DeviceListProps {
   devices: Device[];
   onOpen?: (device: Device) => void;
+  degradedDevices?: Map<string, string[]>; // Substituted fields by device id
+  matchedFields?: Map<string, FieldMatch>; // Identifier search matches by device id
+  incompatibleDevices?: Map<string, string>; // Required controller versions by device id
+  sorting?: DeviceSort; // Sort keys in priority order; devices arrive already sorted
+  onSortingChange?: (sorting: DeviceSort) => void;
 }
 
-// DeviceList component that displays a sortable table of Ubiquiti devices
-export const DeviceList: React.FC<DeviceListProps> = ({ devices, onOpen }) => {
+// Shared look of the plain text and number cells
+const secondaryCellStyle: React.CSSProperties = {
+  color: "var(--text-2-light)",
+  fontSize: 14,
+  fontFamily: "UI Sans_v7",
+  fontWeight: "400",
+  lineHeight: 20,
+};
+
+// DeviceList component that displays a sortable table of Ubiquiti devices.
+// Sorting is done by useDeviceFilters (so grid view shares it); the table only
+// reports header clicks, with shift-click adding a column to the sort.
+export const DeviceList: React.FC<DeviceListProps> = ({
+  devices,
+  onOpen,
+  degradedDevices,
+  matchedFields,
+  incompatibleDevices,
+  sorting = [],
+  onSortingChange,
+}) => {
   const columns: ColumnDef<Device>[] = [
     {
       id: "icon",
@@ -31,8 +62,10 @@ export const DeviceList: React.FC<DeviceListProps> = ({ devices, onOpen }) => {
       enableSorting: false,
     },
     {
+      id: "line",
       accessorKey: "line.name",
       header: "Product Line",
+      sortDescFirst: false,
       cell: ({ getValue }) => (
         <div
           style={{
@@ -48,50 +81,104 @@ export const DeviceList: React.FC<DeviceListProps> = ({ devices, onOpen }) => {
       ),
     },
     {
+      id: "name",
       accessorKey: "product.name",
       header: "Name",
-      cell: ({ getValue, row }) => (
-        <div
-          style={{
-            color: "var(--text-3-light)",
-            fontSize: 14,
-            fontFamily: "UI Sans_v7",
-            fontWeight: "400",
-            lineHeight: 20,
-          }}
-        >
-          <Link
-            to={`/devices/${encodeURIComponent(row.original.id)}`}
-            style={{ color: "inherit", textDecoration: "none" }}
+      sortDescFirst: false,
+      cell: ({ getValue, row }) => {
+        const substitutedFields = degradedDevices?.get(row.original.id);
+        const matchedField = matchedFields?.get(row.original.id);
+        const requiredVersion = incompatibleDevices?.get(row.original.id);
+        return (
+          <div
+            style={{
+              color: "var(--text-3-light)",
+              fontSize: 14,
+              fontFamily: "UI Sans_v7",
+              fontWeight: "400",
+              lineHeight: 20,
+              display: "flex",
+              alignItems: "center",
+              gap: 8,
+            }}
           >
-            {getValue() as string}
-          </Link>
-        </div>
-      ),
+            <Link
+              to={`/devices/${encodeURIComponent(row.original.id)}`}
+              style={{ color: "inherit", textDecoration: "none" }}
+            >
+              {getValue() as string}
+            </Link>
+            {requiredVersion && (
+              <CompatibilityBadge requiredVersion={requiredVersion} />
+            )}
+            {substitutedFields && (
+              <DegradedBadge substitutedFields={substitutedFields} />
+            )}
+            {matchedField && <MatchedField match={matchedField} />}
+          </div>
+        );
+      },
     },
     {
+      id: "sku",
       accessorKey: "sku",
       header: "SKU",
+      sortDescFirst: false,
       cell: ({ getValue }) => (
-        <div
-          style={{
-            color: "var(--text-2-light)",
-            fontSize: 14,
-            fontFamily: "UI Sans_v7",
-            fontWeight: "400",
-            lineHeight: 20,
-          }}
-        >
-          {getValue() as string}
+        <div style={secondaryCellStyle}>{getValue() as string}</div>
+      ),
+    },
+    {
+      id: "ports",
+      accessorFn: (device) => device.unifi?.network?.numberOfPorts,
+      header: "Ports",
+      sortDescFirst: true,
+      cell: ({ getValue }) => (
+        <div style={secondaryCellStyle}>
+          {(getValue() as number | undefined) ?? "—"}
         </div>
       ),
     },
+    {
+      id: "power",
+      accessorFn: (device) => device.unifi?.network?.power?.capacity,
+      header: "PoE Budget",
+      sortDescFirst: true,
+      cell: ({ getValue }) => {
+        const watts = getValue() as number | undefined;
+        return (
+          <div style={secondaryCellStyle}>
+            {watts !== undefined ? `${watts} W` : "—"}
+          </div>
+        );
+      },
+    },
+    {
+      id: "speed",
+      accessorFn: (device) =>
+        device.unifi?.network?.ethernetMaxSpeedMegabitsPerSecond,
+      header: "Max Speed",
+      sortDescFirst: true,
+      cell: ({ getValue }) => {
+        const mbps = getValue() as number | undefined;
+        return (
+          <div style={secondaryCellStyle}>
+            {mbps ? formatSpeed(String(mbps)) : "—"}
+          </div>
+        );
+      },
+    },
   ];
 
   const table = useReactTable({
     data: devices,
     columns,
     getCoreRowModel: getCoreRowModel(),
+    state: { sorting },
+    onSortingChange: (updater) =>
+      onSortingChange?.(functionalUpdate(updater, sorting)),
+    manualSorting: true,
+    enableMultiSort: true,
   });
 
   return (
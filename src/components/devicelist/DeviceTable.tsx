@@ -1,6 +1,6 @@
 import React from "react";
 import { memo } from "react";
-import type { Table } from "@tanstack/react-table";
+import { flexRender, type Table } from "@tanstack/react-table";
 import type { Device } from "../../types/device";
 import { DeviceIcon } from "../DeviceIcon";
 import styles from "./DeviceList.module.css";
@@ -23,7 +23,8 @@ interface DeviceTableProps {
  * DeviceTable component that renders a sortable table of devices using TanStack Table.
  *
  * This component displays device data in a tabular format with:
- * - Sortable column headers with visual indicators
+ * - Sortable column headers with visual indicators; shift-click adds a column
+ *   to the sort, and a number shows each column's priority
  * - Device icons in the first column
  * - Custom rendering for model data using device transformers
  * - Responsive table styling
@@ -49,13 +50,52 @@ export const DeviceTable: React.FC<DeviceTableProps> = memo(
         <thead>
           {table.getHeaderGroups().map((headerGroup) => (
             <tr key={headerGroup.id}>
-              {headerGroup.headers.map((header) => (
-                <th key={header.id} className={styles.headerCell}>
-                  {header.isPlaceholder
-                    ? null
-                    : (header.column.columnDef.header as string)}
-                </th>
-              ))}
+              {headerGroup.headers.map((header) => {
+                const sortDirection = header.column.getIsSorted();
+                const isMultiSort = table.getState().sorting.length > 1;
+                const label = flexRender(
+                  header.column.columnDef.header,
+                  header.getContext()
+                );
+                return (
+                  <th
+                    key={header.id}
+                    className={styles.headerCell}
+                    aria-sort={
+                      sortDirection === "asc"
+                        ? "ascending"
+                        : sortDirection === "desc"
+                          ? "descending"
+                          : undefined
+                    }
+                  >
+                    {header.isPlaceholder ? null : header.column.getCanSort() ? (
+                      <button
+                        className={styles.sortButton}
+                        onClick={header.column.getToggleSortingHandler()}
+                        title="Sort; shift-click to sort by more than one column"
+                      >
+                        {label}
+                        <span
+                          className={styles.sortIndicator}
+                          aria-hidden="true"
+                        >
+                          {sortDirection === "asc"
+                            ? "▲"
+                            : sortDirection === "desc"
+                              ? "▼"
+                              : ""}
+                          {sortDirection && isMultiSort
+                            ? header.column.getSortIndex() + 1
+                            : ""}
+                        </span>
+                      </button>
+                    ) : (
+                      label
+                    )}
+                  </th>
+                );
+              })}
             </tr>
           ))}
         </thead>
@@ -65,7 +105,7 @@ export const DeviceTable: React.FC<DeviceTableProps> = memo(
               key={row.id}
               onClick={() => onOpen?.(row.original)}
               onKeyDown={(e) => {
-                if (e.key === 'Enter' || e.key === ' ') {
+                if (e.key === "Enter" || e.key === " ") {
                   e.preventDefault();
                   onOpen?.(row.original);
                 }
@@ -81,7 +121,7 @@ export const DeviceTable: React.FC<DeviceTableProps> = memo(
                       className={styles.deviceIcon}
                     />
                   ) : (
-                    (cell.getValue() as React.ReactNode)
+                    flexRender(cell.column.columnDef.cell, cell.getContext())
                   )}
                 </td>
               ))}
@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  FACET_VALUE_STATE_LABELS,
+  getFacetGroupValues,
+  nextFacetValueState,
+  PRODUCT_LINE_FACET,
+  REGION_FACET,
+  setFacetValueState,
+  type FacetGroup,
+  type FacetOption,
+} from "../../utils/deviceFacets";
+import { TriStateCheckbox } from "../TriStateCheckbox";
+import styles from "./FacetPanel.module.css";
+
+/**
+ * Props for the FacetPanel component.
+ */
+interface FacetPanelProps {
+  /**
+   * Facets with their options and live counts (see buildFacetGroups).
+   * Product line and region facets have their own controls and aren't shown.
+   */
+  groups: FacetGroup[];
+  /**
+   * Callback with the new selected values of the facets that changed.
+   */
+  onChange: (changes: Record<string, string[]>) => void;
+}
+
+/**
+ * FacetPanel component: a dropdown of hardware spec facets (capabilities,
+ * port count, speed, PoE budget, adoptability, indoor-only, AR and BLE).
+ *
+ * Each option shows how many devices it would leave given the search and the
+ * other facets. Options that would leave none are disabled unless in use.
+ * Clicking an option cycles it through include, exclude and neutral. Included
+ * values within a facet are alternatives; different facets all apply, and
+ * excluded values are always removed.
+ *
+ * @param props - The component props
+ * @param props.groups - Facets to show, with counts
+ * @param props.onChange - Function called with the changed facets' selections
+ *
+ * @example
+ * ```tsx
+ * <FacetPanel groups={facetGroups} onChange={setFacetValues} />
+ * ```
+ */
+export const FacetPanel: React.FC<FacetPanelProps> = ({ groups, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const specGroups = groups.filter(
+    ({ key }) => key !== PRODUCT_LINE_FACET && key !== REGION_FACET
+  );
+  const activeCount = specGroups.reduce(
+    (total, group) =>
+      total +
+      group.options.filter((option) => option.state !== "neutral").length,
+    0
+  );
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleCycle = (group: FacetGroup, option: FacetOption) => {
+    onChange({
+      [group.key]: setFacetValueState(
+        getFacetGroupValues(group),
+        option.value,
+        nextFacetValueState(option.state)
+      ),
+    });
+  };
+
+  const handleReset = () => {
+    onChange(Object.fromEntries(specGroups.map(({ key }) => [key, []])));
+  };
+
+  return (
+    <div
+      className={styles.container}
+      ref={containerRef}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") setIsOpen(false);
+      }}
+    >
+      <button
+        className={`${styles.toggle} ${activeCount > 0 ? styles.active : ""}`}
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label="Filter by specs"
+        aria-expanded={isOpen}
+      >
+        Specs{activeCount > 0 && ` (${activeCount})`}
+      </button>
+      {isOpen && (
+        <div className={styles.panel}>
+          {specGroups
+            .filter((group) => group.options.length > 0)
+            .map((group) => (
+              <fieldset key={group.key} className={styles.group}>
+                <legend className={styles.groupTitle}>{group.label}</legend>
+                {group.options.map((option) => {
+                  const isEmpty =
+                    option.count === 0 && option.state === "neutral";
+                  return (
+                    <button
+                      key={option.value}
+                      className={`${styles.option} ${
+                        isEmpty ? styles.optionEmpty : ""
+                      } ${option.state === "exclude" ? styles.optionExcluded : ""}`}
+                      onClick={() => handleCycle(group, option)}
+                      disabled={isEmpty}
+                      aria-label={`${group.label}: ${option.label}, ${option.count} devices, ${
+                        FACET_VALUE_STATE_LABELS[option.state]
+                      }`}
+                    >
+                      <TriStateCheckbox state={option.state} />
+                      <span className={styles.optionLabel}>{option.label}</span>
+                      <span className={styles.optionCount}>{option.count}</span>
+                    </button>
+                  );
+                })}
+              </fieldset>
+            ))}
+          <button
+            className={styles.resetButton}
+            onClick={handleReset}
+            disabled={activeCount === 0}
+          >
+            Reset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React from "react";
+import type { DriftField, SchemaDriftReport } from "../../utils/schemaDrift";
+import styles from "./ValidationDiagnostics.module.css";
+
+/**
+ * Props for the SchemaDriftSection component.
+ */
+interface SchemaDriftSectionProps {
+  /**
+   * Drift report computed from the raw catalog payload.
+   */
+  report: SchemaDriftReport;
+}
+
+// "string ×12, number ×3"
+const formatTypeCounts = (types: DriftField["types"]): string =>
+  Object.entries(types)
+    .map(([type, count]) => `${type} ×${count}`)
+    .join(", ");
+
+// Table of drifted fields with their occurrence counts
+const DriftFieldTable: React.FC<{
+  fields: DriftField[];
+  showExpected?: boolean;
+}> = ({ fields, showExpected = false }) => (
+  <table className={styles.issueTable}>
+    <thead>
+      <tr>
+        <th>Path</th>
+        {showExpected && <th>Expected</th>}
+        <th>Seen as</th>
+        <th>Count</th>
+      </tr>
+    </thead>
+    <tbody>
+      {fields.map((field) => (
+        <tr key={field.path}>
+          <td className={styles.path}>{field.path}</td>
+          {showExpected && <td>{field.expected}</td>}
+          <td>{formatTypeCounts(field.types)}</td>
+          <td>{field.occurrences}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+/**
+ * SchemaDriftSection component that shows where the raw catalog payload and
+ * DeviceSchema disagree: keys the schema doesn't know, values with an
+ * unexpected type, and schema keys no device uses.
+ *
+ * @param props - The component props
+ * @param props.report - Drift report from the catalog snapshot
+ *
+ * @example
+ * ```tsx
+ * <SchemaDriftSection report={catalog.schemaDrift} />
+ * ```
+ */
+export const SchemaDriftSection: React.FC<SchemaDriftSectionProps> = ({
+  report,
+}) => (
+  <section className={styles.section}>
+    <h3 className={styles.sectionTitle}>Schema drift</h3>
+    <p className={styles.summary}>
+      Compared {report.deviceCount} raw devices against DeviceSchema.
+    </p>
+
+    <h4 className={styles.subsectionTitle}>
+      Unknown fields ({report.unknownFields.length})
+    </h4>
+    {report.unknownFields.length > 0 ? (
+      <DriftFieldTable fields={report.unknownFields} />
+    ) : (
+      <p className={styles.summary}>Every field in the payload is covered.</p>
+    )}
+
+    <h4 className={styles.subsectionTitle}>
+      Unexpected types ({report.typeMismatches.length})
+    </h4>
+    {report.typeMismatches.length > 0 ? (
+      <DriftFieldTable fields={report.typeMismatches} showExpected />
+    ) : (
+      <p className={styles.summary}>All values have the expected types.</p>
+    )}
+
+    <h4 className={styles.subsectionTitle}>
+      Schema fields never present ({report.missingFields.length})
+    </h4>
+    {report.missingFields.length > 0 ? (
+      <ul className={styles.missingList}>
+        {report.missingFields.map((field) => (
+          <li key={field.path}>
+            <span className={styles.path}>{field.path}</span>{" "}
+            <span className={styles.deviceIndex}>
+              {field.optional ? "optional" : "required"}
+            </span>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className={styles.summary}>Every schema field appears in the data.</p>
+    )}
+  </section>
+);
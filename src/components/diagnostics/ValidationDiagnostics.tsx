@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import type {
+  DegradedDevice,
+  DeviceValidationIssue,
+} from "../../types/catalog";
+import type { SchemaDriftReport } from "../../utils/schemaDrift";
+import { SchemaDriftSection } from "./SchemaDriftSection";
+import styles from "./ValidationDiagnostics.module.css";
+
+// Longest raw value shown before it gets truncated
+const MAX_VALUE_LENGTH = 160;
+
+// Whether a drift report found anything worth looking at. Kept here rather
+// than in schemaDrift.ts, which would pull Zod into the main bundle.
+const hasSchemaDrift = (report: SchemaDriftReport): boolean =>
+  report.unknownFields.length > 0 ||
+  report.typeMismatches.length > 0 ||
+  report.missingFields.length > 0;
+
+/**
+ * Props for the ValidationDiagnostics component.
+ */
+interface ValidationDiagnosticsProps {
+  /**
+   * Every schema failure reported while validating the catalog.
+   */
+  issues: DeviceValidationIssue[];
+  /**
+   * Devices rebuilt from safe defaults, with their substituted fields.
+   */
+  degradedDevices: DegradedDevice[];
+  /**
+   * Optional schema drift report for the raw payload.
+   */
+  schemaDrift?: SchemaDriftReport;
+}
+
+// Issues for one raw device, in payload order
+interface DeviceIssueGroup {
+  deviceIndex: number;
+  deviceId: string | null;
+  issues: DeviceValidationIssue[];
+}
+
+// Renders a raw payload value compactly; missing values are called out explicitly
+const formatRawValue = (value: unknown): string => {
+  if (value === undefined) return "(missing)";
+  const text = JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH
+    ? `${text.slice(0, MAX_VALUE_LENGTH)}…`
+    : text;
+};
+
+/**
+ * ValidationDiagnostics component with a header button that opens a drawer
+ * listing every validation failure in the loaded catalog.
+ *
+ * Failures are grouped per device and show the Zod issue path, message and the
+ * raw value found in the payload, plus the fields createSafeDevice had to
+ * substitute. The drawer also shows the schema drift report. Renders nothing
+ * when the catalog validated cleanly and matches the schema.
+ *
+ * @param props - The component props
+ * @param props.issues - Schema failures from the catalog snapshot
+ * @param props.degradedDevices - Devices rebuilt from safe defaults
+ * @param props.schemaDrift - Payload vs. schema differences
+ *
+ * @example
+ * ```tsx
+ * <ValidationDiagnostics
+ *   issues={catalog.validationIssues ?? []}
+ *   degradedDevices={catalog.degradedDevices ?? []}
+ * />
+ * ```
+ */
+export const ValidationDiagnostics: React.FC<ValidationDiagnosticsProps> = ({
+  issues,
+  degradedDevices,
+  schemaDrift,
+}) => {
+  const [open, setOpen] = useState(false);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  const groups = useMemo(() => {
+    const byIndex = new Map<number, DeviceIssueGroup>();
+    for (const issue of issues) {
+      const group = byIndex.get(issue.deviceIndex) ?? {
+        deviceIndex: issue.deviceIndex,
+        deviceId: issue.deviceId,
+        issues: [],
+      };
+      group.issues.push(issue);
+      byIndex.set(issue.deviceIndex, group);
+    }
+    return [...byIndex.values()].sort((a, b) => a.deviceIndex - b.deviceIndex);
+  }, [issues]);
+
+  const substitutedById = useMemo(
+    () =>
+      new Map(
+        degradedDevices.map((entry) => [
+          entry.deviceId,
+          entry.substitutedFields,
+        ])
+      ),
+    [degradedDevices]
+  );
+
+  // Focus the drawer when it opens and close it on Escape
+  useEffect(() => {
+    if (!open) return;
+    closeButtonRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open]);
+
+  const showDrift = !!schemaDrift && hasSchemaDrift(schemaDrift);
+  if (issues.length === 0 && !showDrift) return null;
+
+  return (
+    <>
+      <button
+        type="button"
+        className={styles.trigger}
+        onClick={() => setOpen(true)}
+        aria-haspopup="dialog"
+        aria-expanded={open}
+      >
+        {issues.length > 0
+          ? `${issues.length} validation ${issues.length === 1 ? "issue" : "issues"}`
+          : "Schema drift"}
+      </button>
+
+      {open && (
+        <>
+          <div
+            className={styles.backdrop}
+            onClick={() => setOpen(false)}
+            aria-hidden="true"
+          />
+          <aside
+            className={styles.drawer}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="catalog-diagnostics-title"
+          >
+            <div className={styles.drawerHeader}>
+              <h2 id="catalog-diagnostics-title" className={styles.title}>
+                Catalog diagnostics
+              </h2>
+              <button
+                ref={closeButtonRef}
+                type="button"
+                className={styles.closeButton}
+                onClick={() => setOpen(false)}
+                aria-label="Close catalog diagnostics"
+              >
+                ×
+              </button>
+            </div>
+            {issues.length > 0 && (
+              <section className={styles.section}>
+                <h3 className={styles.sectionTitle}>Validation failures</h3>
+                <p className={styles.summary}>
+                  {issues.length} {issues.length === 1 ? "issue" : "issues"}{" "}
+                  across {groups.length}{" "}
+                  {groups.length === 1 ? "device" : "devices"}. These devices
+                  were rebuilt with safe defaults.
+                </p>
+
+                <ul className={styles.groupList}>
+                  {groups.map((group) => {
+                    const substituted =
+                      group.deviceId !== null
+                        ? substitutedById.get(group.deviceId)
+                        : undefined;
+                    return (
+                      <li key={group.deviceIndex} className={styles.group}>
+                        <div className={styles.groupHeader}>
+                          {group.deviceId !== null ? (
+                            <Link
+                              to={`/devices/${encodeURIComponent(group.deviceId)}`}
+                              className={styles.deviceLink}
+                              onClick={() => setOpen(false)}
+                            >
+                              {group.deviceId}
+                            </Link>
+                          ) : (
+                            <span className={styles.deviceLink}>
+                              Device without id
+                            </span>
+                          )}
+                          <span className={styles.deviceIndex}>
+                            index {group.deviceIndex}
+                          </span>
+                        </div>
+                        {substituted && substituted.length > 0 && (
+                          <p className={styles.substituted}>
+                            Substituted: {substituted.join(", ")}
+                          </p>
+                        )}
+                        <table className={styles.issueTable}>
+                          <thead>
+                            <tr>
+                              <th>Path</th>
+                              <th>Problem</th>
+                              <th>Raw value</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {group.issues.map((issue, i) => (
+                              <tr key={`${issue.path}-${i}`}>
+                                <td className={styles.path}>
+                                  {issue.path || "(device)"}
+                                </td>
+                                <td>{issue.message}</td>
+                                <td className={styles.rawValue}>
+                                  {formatRawValue(issue.received)}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            )}
+
+            {showDrift && <SchemaDriftSection report={schemaDrift} />}
+          </aside>
+        </>
+      )}
+    </>
+  );
+};
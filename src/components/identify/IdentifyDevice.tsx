@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useDevices } from "../../hooks/useDevices";
+import {
+  describeInterpretation,
+  identifyDevice,
+  type IdentificationCandidate,
+} from "../../utils/deviceIdentification";
+import { LoadingSpinner } from "../LoadingSpinner";
+import { ErrorMessage } from "../ErrorMessage";
+import { DeviceLink } from "../DeviceLink";
+import styles from "./IdentifyDevice.module.css";
+
+// A candidate with the evidence that points to it
+const CandidateRow: React.FC<{ candidate: IdentificationCandidate }> = ({
+  candidate,
+}) => (
+  <li className={styles.candidate}>
+    <DeviceLink device={candidate.device} />
+    <span className={styles.reasons}>{candidate.reasons.join("; ")}</span>
+  </li>
+);
+
+/**
+ * IdentifyDevice route component that resolves a pasted identifier to a device.
+ *
+ * Accepts a hex or decimal system ID, a `k1/k2/k3` triplet (`k1=... k2=...`
+ * or slash separated), a GUID or a legacy model code such as "U7PG2". Shows
+ * how the input was read, the device when exactly one matches confidently,
+ * and otherwise a ranked list of candidates. The value is kept in the URL
+ * (`?value=`) so a lookup can be shared.
+ *
+ * @example
+ * ```tsx
+ * <Route path="/identify" element={<IdentifyDevice />} />
+ * ```
+ */
+export const IdentifyDevice: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const value = searchParams.get("value") || "";
+  const [input, setInput] = useState(value);
+  const { devices, loading, attempt, maxAttempts, error, failure, refetch } =
+    useDevices();
+
+  useEffect(() => {
+    document.title = "Kevin Davis | Ubiquiti Viewer - Identify device";
+  }, []);
+
+  // Keep the field in step with back/forward navigation
+  useEffect(() => {
+    setInput(value);
+  }, [value]);
+
+  const result = useMemo(
+    () => (devices && value ? identifyDevice(devices, value) : null),
+    [devices, value]
+  );
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const params = new URLSearchParams();
+    if (input.trim()) params.set("value", input.trim());
+    setSearchParams(params, { replace: true });
+  };
+
+  if (loading) {
+    return <LoadingSpinner attempt={attempt} maxAttempts={maxAttempts} />;
+  }
+  if (error && !devices) {
+    return <ErrorMessage error={failure} onRetry={refetch} />;
+  }
+
+  const others = result?.candidates.filter(
+    (candidate) => candidate.device !== result.match
+  );
+
+  return (
+    <div className={styles.identify}>
+      <h2 className={styles.title}>Identify device</h2>
+      <form className={styles.form} onSubmit={handleSubmit}>
+        <label className={styles.field}>
+          <span>System ID, triplet, GUID or legacy name</span>
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="e.g. 0xa650, U7PG2 or k1=U6-Pro k2=UAP6MP"
+            autoComplete="off"
+            spellCheck={false}
+          />
+        </label>
+        <button type="submit" className={styles.submit}>
+          Identify
+        </button>
+      </form>
+
+      {result && (
+        <>
+          <p className={styles.readAs}>
+            {result.interpretations.length > 0
+              ? `Read as ${result.interpretations
+                  .map(describeInterpretation)
+                  .join(" or ")}`
+              : "Nothing to look up"}
+          </p>
+
+          {result.match && (
+            <section className={styles.section}>
+              <h3 className={styles.sectionTitle}>Match</h3>
+              <ul className={styles.candidates}>
+                <CandidateRow candidate={result.candidates[0]} />
+              </ul>
+            </section>
+          )}
+
+          {others && others.length > 0 && (
+            <section className={styles.section}>
+              <h3 className={styles.sectionTitle}>
+                {result.match ? "Other candidates" : "Candidates"}
+              </h3>
+              <ul className={styles.candidates}>
+                {others.map((candidate) => (
+                  <CandidateRow
+                    key={candidate.device.id}
+                    candidate={candidate}
+                  />
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {result.candidates.length === 0 &&
+            result.interpretations.length > 0 && (
+              <p className={styles.empty} role="status">
+                No device in the catalog matches "{value}".
+              </p>
+            )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default IdentifyDevice;
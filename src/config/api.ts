@@ -5,10 +5,19 @@
  * the application for fetching Ubiquiti device data.
  *
  * @constant
- * @type {Readonly<{BASE_URL: string, CACHE_DURATION: number}>}
+ * @type {Readonly<{BASE_URL: string, SNAPSHOT_URL: string, CATALOG_SOURCE: string, CONDITIONAL_REQUESTS: string, MOCK_URL: string, MOCK_SCENARIO: string, SYNONYMS_URL: string, CACHE_DURATION: number, REQUEST_TIMEOUT: number, RETRY_BASE_DELAY: number, RETRY_MAX_DELAY: number}>}
  *
  * @property {string} BASE_URL - The URL endpoint for fetching Ubiquiti device data.
+ * @property {string} SNAPSHOT_URL - URL of the catalog snapshot for the "static" source (VITE_CATALOG_SNAPSHOT_URL, default the bundled public/catalog-snapshot.json).
+ * @property {string} CATALOG_SOURCE - Which catalog adapter to use ("http", "static", "fixture" or "mock").
+ * @property {string} CONDITIONAL_REQUESTS - When the HTTP source sends If-None-Match/If-Modified-Since on refetches (VITE_CONDITIONAL_REQUESTS): "same-origin" (default), "true" for a cross-origin endpoint whose CORS policy allows the headers, or "false". The default static.ui.com endpoint is cross-origin and doesn't allow them, so it is never revalidated unless proxied or allowed.
+ * @property {string} MOCK_URL - Endpoint of the dev-server mock catalog (see mock/catalogMockServer.ts).
+ * @property {string} MOCK_SCENARIO - Default mock scenario when CATALOG_SOURCE is "mock" (VITE_MOCK_SCENARIO).
+ * @property {string} SYNONYMS_URL - URL of a team search synonym dictionary merged over the bundled one (VITE_SEARCH_SYNONYMS_URL, default none).
  * @property {number} CACHE_DURATION - Cache duration in milliseconds (5 minutes).
+ * @property {number} REQUEST_TIMEOUT - Per-request timeout in milliseconds (VITE_REQUEST_TIMEOUT_MS, default 15 seconds).
+ * @property {number} RETRY_BASE_DELAY - Base delay for exponential retry backoff in milliseconds.
+ * @property {number} RETRY_MAX_DELAY - Upper bound for a single retry delay in milliseconds.
  *
  * @example
  * ```ts
@@ -23,5 +32,14 @@
  */
 export const API_CONFIG = {
   BASE_URL: import.meta.env.VITE_API_URL,
+  SNAPSHOT_URL: import.meta.env.VITE_CATALOG_SNAPSHOT_URL || "/catalog-snapshot.json",
+  CATALOG_SOURCE: import.meta.env.VITE_CATALOG_SOURCE || "http",
+  CONDITIONAL_REQUESTS: import.meta.env.VITE_CONDITIONAL_REQUESTS || "same-origin",
+  MOCK_URL: "/__mock/catalog",
+  MOCK_SCENARIO: import.meta.env.VITE_MOCK_SCENARIO || "ok",
+  SYNONYMS_URL: import.meta.env.VITE_SEARCH_SYNONYMS_URL || "",
   CACHE_DURATION: 5 * 60 * 1000, // 5 minutes
+  REQUEST_TIMEOUT: Number(import.meta.env.VITE_REQUEST_TIMEOUT_MS) || 15 * 1000, // 15 seconds
+  RETRY_BASE_DELAY: 1000, // 1 second, doubled per attempt
+  RETRY_MAX_DELAY: 30 * 1000, // 30 seconds
 } as const;
@@ -0,0 +1,57 @@
+/**
+ * Search terms mapped to the queries they should also find.
+ *
+ * Keys are lowercase single words or quoted phrases as typed in the search
+ * bar. Each expansion is a query in the search syntax (see parseSearchQuery),
+ * so it can be free text (`USW`), a phrase (`"Dream Machine"`) or a field
+ * term (`line:"UniFi Switching"`, `speed>=10000`).
+ */
+export type SearchSynonyms = Readonly<Record<string, readonly string[]>>;
+
+const ACCESS_POINT = ["UAP", "U6", "U7", 'line:"UniFi WiFi"', "cap:wifi6"];
+const SWITCH = ["USW", 'line:"UniFi Switching"'];
+const CAMERA = ["UVC", 'line:"UniFi Protect"'];
+const GATEWAY = [
+  "UDM",
+  "UCG",
+  "UXG",
+  "USG",
+  '"Dream Machine"',
+  '"Cloud Gateway"',
+  "cap:gateway",
+];
+const POE = ["cap:poe", "PoE"];
+
+/**
+ * Ubiquiti terminology bundled with the app: generic terms map to product
+ * lines and model prefixes, and marketing speeds map to numeric filters.
+ * A team dictionary (VITE_SEARCH_SYNONYMS_URL) is merged over these.
+ */
+export const DEFAULT_SEARCH_SYNONYMS: SearchSynonyms = {
+  ap: ACCESS_POINT,
+  aps: ACCESS_POINT,
+  "access point": ACCESS_POINT,
+  switch: SWITCH,
+  switches: SWITCH,
+  camera: CAMERA,
+  cameras: CAMERA,
+  cam: CAMERA,
+  protect: ["UVC", "UNVR", "UCK"],
+  nvr: ["UNVR", '"Network Video Recorder"'],
+  gateway: GATEWAY,
+  router: GATEWAY,
+  firewall: GATEWAY,
+  poe: ["cap:poe"],
+  "poe+": POE,
+  "poe++": POE,
+  "10g": ["speed>=10000", "cap:sfp-plus"],
+  "10gbe": ["speed>=10000", "cap:sfp-plus"],
+  "2.5g": ["speed>=2500"],
+  "2.5gbe": ["speed>=2500"],
+  sfp: ["cap:sfp-plus"],
+  "sfp+": ["cap:sfp-plus"],
+  wifi6: ["cap:wifi6", "U6"],
+  wifi7: ["cap:wifi7", "U7"],
+  ptp: ['line:"UISP airMAX"', "airMAX", "LiteBeam", "NanoBeam", "airFiber"],
+  bridge: ['line:"UISP airMAX"', "LiteBeam", "NanoBeam"],
+};
@@ -0,0 +1,67 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { CatalogVersionSummary } from "../types/catalog";
+import {
+  listCatalogVersions,
+  readCatalogVersion,
+} from "../services/catalogStore";
+import { diffCatalogs, type CatalogDiff } from "../utils/catalogDiff";
+import { getErrorMessage } from "../utils/errorUtils";
+
+// Return type for the useCatalogChanges hook
+interface UseCatalogChangesResult {
+  versions: CatalogVersionSummary[];
+  fromVersion: string | null; // Resolved older version being compared
+  toVersion: string | null; // Resolved newer version being compared
+  diff: CatalogDiff | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// Loads the recorded catalog versions and diffs two of them.
+// Without explicit versions, compares the two most recent ones.
+// Snapshots for a version never change, so they're cached indefinitely.
+export const useCatalogChanges = (
+  requestedFrom: string | null,
+  requestedTo: string | null
+): UseCatalogChangesResult => {
+  const versionsQuery = useQuery({
+    queryKey: ["catalogVersions"],
+    queryFn: listCatalogVersions,
+  });
+
+  const versions = versionsQuery.data;
+  const toVersion = requestedTo || versions?.[0]?.version || null;
+  const fromVersion = requestedFrom || versions?.[1]?.version || null;
+
+  const fromQuery = useQuery({
+    queryKey: ["catalogVersion", fromVersion],
+    queryFn: () => readCatalogVersion(fromVersion!),
+    enabled: !!fromVersion,
+    staleTime: Infinity,
+  });
+
+  const toQuery = useQuery({
+    queryKey: ["catalogVersion", toVersion],
+    queryFn: () => readCatalogVersion(toVersion!),
+    enabled: !!toVersion,
+    staleTime: Infinity,
+  });
+
+  const diff = useMemo(() => {
+    if (!fromQuery.data || !toQuery.data) return null;
+    return diffCatalogs(fromQuery.data.devices, toQuery.data.devices);
+  }, [fromQuery.data, toQuery.data]);
+
+  const error = versionsQuery.error || fromQuery.error || toQuery.error;
+
+  return {
+    versions: versions || [],
+    fromVersion,
+    toVersion,
+    diff,
+    loading:
+      versionsQuery.isLoading || fromQuery.isLoading || toQuery.isLoading,
+    error: error ? getErrorMessage(error) : null,
+  };
+};
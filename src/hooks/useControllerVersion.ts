@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  CONTROLLER_VERSION_KEY,
+  readControllerVersion,
+  writeControllerVersion,
+} from "../services/controllerVersionStore";
+import {
+  parseVersion,
+  type ParsedVersion,
+} from "../utils/controllerCompatibility";
+
+// Return type for the useControllerVersion hook
+export interface ControllerVersion {
+  version: string; // As entered, e.g. "8.6.9"; empty when not set
+  parsed: ParsedVersion | null; // Null when not set
+  setVersion: (version: string) => void; // Ignores text that isn't a version
+}
+
+// The user's Network application version, entered once and persisted in
+// local storage (kept in sync across tabs) for device compatibility checks.
+export const useControllerVersion = (): ControllerVersion => {
+  const [version, setStoredVersion] = useState(() => {
+    const stored = readControllerVersion();
+    return parseVersion(stored) ? stored : "";
+  });
+
+  useEffect(() => writeControllerVersion(version), [version]);
+
+  // Another tab changed the version
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== CONTROLLER_VERSION_KEY) return;
+      const stored = readControllerVersion();
+      setStoredVersion(parseVersion(stored) ? stored : "");
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const setVersion = useCallback((next: string) => {
+    const trimmed = next.trim();
+    if (!trimmed || parseVersion(trimmed)) setStoredVersion(trimmed);
+  }, []);
+
+  const parsed = useMemo(() => parseVersion(version), [version]);
+
+  return { version, parsed, setVersion };
+};
@@ -1,63 +1,217 @@
 import { useMemo } from "react";
 import { useSearchParams } from "react-router-dom";
 import type { Device } from "../types/device";
+import type { SearchEntry } from "../types/search";
+import { suggestSearchCorrection } from "../utils/deviceFilters";
+import {
+  getDeviceCompatibility,
+  type ParsedVersion,
+} from "../utils/controllerCompatibility";
+import {
+  buildFacetGroups,
+  filterByFacets,
+  parseFacetSelection,
+  PRODUCT_LINE_FACET,
+  writeFacetSelection,
+  type FacetSelection,
+} from "../utils/deviceFacets";
+import {
+  formatDeviceSort,
+  parseDeviceSort,
+  sortDevices,
+  type DeviceSort,
+} from "../utils/deviceSort";
+import { buildSearchIndex } from "../utils/searchIndex";
+import { sanitizeStructuredQuery } from "../utils/securityUtils";
 import { useDeviceSearch } from "./useDeviceSearch";
+import { useSearchSynonyms } from "./useSearchSynonyms";
+
+// URL parameter set to "1" to hide devices the controller can't adopt
+const HIDE_INCOMPATIBLE_PARAM = "compatible";
+// URL parameter with the sort columns, e.g. "ports,-power"
+const SORT_PARAM = "sort";
+
+// Everything the URL filters on, e.g. to restore filters after "clear all".
+// Saved and recent searches store the same shape.
+export type FilterState = SearchEntry;
 
 // Hook for managing device filtering state synchronized with URL parameters.
 // Centralizes logic for parsing URL params, building URLs, and applying filters.
-export const useDeviceFilters = (devices: Device[] | null) => {
+// With the user's controller version, devices it can't adopt can be hidden.
+// The sort order (list column headers) lives in the URL too and applies to
+// both views.
+export const useDeviceFilters = (
+  devices: Device[] | null,
+  controllerVersion: ParsedVersion | null = null
+) => {
   const [searchParams, setSearchParams] = useSearchParams();
 
   // Parse URL params for search and filters - keeps state in sync with browser navigation
+  // Product lines and spec facets share one selection (see DEVICE_FACETS)
   const query = searchParams.get("q") || "";
+  const hideIncompatible = searchParams.get(HIDE_INCOMPATIBLE_PARAM) === "1";
+  const facetSelection = useMemo(
+    () => parseFacetSelection(searchParams),
+    [searchParams]
+  );
   const productLineFilter = useMemo(
-    () => searchParams.get("lines")?.split(",").filter(Boolean) || [],
+    () => [...(facetSelection[PRODUCT_LINE_FACET] || [])],
+    [facetSelection]
+  );
+  const sorting = useMemo(
+    () => parseDeviceSort(searchParams.get(SORT_PARAM)),
     [searchParams]
   );
+  const filters = useMemo<FilterState>(
+    () => ({ query, selection: facetSelection, hideIncompatible }),
+    [query, facetSelection, hideIncompatible]
+  );
 
   // Build URL params string for Ubiquiti device filtering
-  const buildUrlParams = (searchQuery: string, lineFilters: string[]) => {
+  const buildUrlParams = (
+    searchQuery: string,
+    selection: FacetSelection,
+    hide: boolean,
+    sort: DeviceSort
+  ) => {
     const params = new URLSearchParams();
     if (searchQuery.trim()) params.set("q", searchQuery.trim());
-    if (lineFilters.length > 0) params.set("lines", lineFilters.join(","));
+    writeFacetSelection(params, selection);
+    if (hide) params.set(HIDE_INCOMPATIBLE_PARAM, "1");
+    if (sort.length > 0) params.set(SORT_PARAM, formatDeviceSort(sort));
     return params;
   };
 
   // Update browser URL when filters change
-  const updateUrl = (newQuery: string, newFilters: string[]) => {
-    setSearchParams(buildUrlParams(newQuery, newFilters), { replace: true });
+  const updateUrl = (
+    newQuery: string,
+    newSelection: FacetSelection,
+    hide = hideIncompatible,
+    newSort = sorting
+  ) => {
+    setSearchParams(buildUrlParams(newQuery, newSelection, hide, newSort), {
+      replace: true,
+    });
   };
 
   const setQuery = (newQuery: string) => {
-    updateUrl(newQuery, productLineFilter);
+    updateUrl(newQuery, facetSelection);
   };
 
   const setProductLineFilter = (newFilters: string[]) => {
-    updateUrl(query, newFilters);
+    updateUrl(query, { ...facetSelection, [PRODUCT_LINE_FACET]: newFilters });
+  };
+
+  // Both at once, e.g. when an autocomplete line replaces the word typed to find it
+  const setQueryAndProductLineFilter = (
+    newQuery: string,
+    newFilters: string[]
+  ) => {
+    updateUrl(newQuery, {
+      ...facetSelection,
+      [PRODUCT_LINE_FACET]: newFilters,
+    });
+  };
+
+  // Replaces the selected values of the given facets, e.g. { ports: ["17-24"] }
+  const setFacetValues = (changes: FacetSelection) => {
+    updateUrl(query, { ...facetSelection, ...changes });
+  };
+
+  const setHideIncompatible = (hide: boolean) => {
+    updateUrl(query, facetSelection, hide);
+  };
+
+  // Replaces every filter at once, e.g. to undo removing one
+  const setFilters = (state: FilterState) => {
+    updateUrl(state.query, state.selection, state.hideIncompatible);
+  };
+
+  // Sort keys in priority order; empty restores the default (relevance) order
+  const setSorting = (sort: DeviceSort) => {
+    updateUrl(query, facetSelection, hideIncompatible, sort);
   };
 
-  // Filter devices by search query first, then by product line
-  const searchFiltered = useDeviceSearch(devices || [], query);
-  const productLineFilterFn = useMemo(
-    () => (device: Device) =>
-      device.line?.name && productLineFilter.includes(device.line.name),
-    [productLineFilter]
+  // Built once per catalog load; search, autocomplete and "did you mean" share it
+  const searchIndex = useMemo(() => buildSearchIndex(devices || []), [devices]);
+  // Bundled synonyms plus the team's, shared by search and autocomplete
+  const searchSynonyms = useSearchSynonyms();
+
+  // Filter devices by search query first, then by product line and specs
+  const { devices: searchFiltered, matchedFields } = useDeviceSearch(
+    searchIndex,
+    query,
+    searchSynonyms
   );
-  const fullyFilteredDevices = useMemo(() => {
-    if (productLineFilter.length === 0) return searchFiltered;
-    return searchFiltered.filter(productLineFilterFn);
-  }, [productLineFilter.length, searchFiltered, productLineFilterFn]);
+
+  // Required controller versions of the devices the entered version can't adopt
+  const incompatibleDevices = useMemo(() => {
+    const incompatible = new Map<string, string>();
+    for (const device of devices || []) {
+      const { status, requiredVersion } = getDeviceCompatibility(
+        device,
+        controllerVersion
+      );
+      if (status === "incompatible" && requiredVersion) {
+        incompatible.set(device.id, requiredVersion);
+      }
+    }
+    return incompatible;
+  }, [devices, controllerVersion]);
+
+  // Hidden only while a controller version is set; the flag stays in the URL
+  const compatibleFiltered = useMemo(
+    () =>
+      hideIncompatible
+        ? searchFiltered.filter((device) => !incompatibleDevices.has(device.id))
+        : searchFiltered,
+    [searchFiltered, hideIncompatible, incompatibleDevices]
+  );
+
+  // Sorted last so ties keep the search's relevance order
+  const fullyFilteredDevices = useMemo(
+    () =>
+      sortDevices(filterByFacets(compatibleFiltered, facetSelection), sorting),
+    [compatibleFiltered, facetSelection, sorting]
+  );
+
+  // Options and live counts for every facet, given the search and the other facets
+  const facetGroups = useMemo(
+    () => buildFacetGroups(devices || [], compatibleFiltered, facetSelection),
+    [devices, compatibleFiltered, facetSelection]
+  );
+
+  // "Did you mean" correction, only worked out when the search found nothing
+  const searchSuggestion = useMemo(() => {
+    if (fullyFilteredDevices.length > 0 || !query.trim()) return null;
+    return suggestSearchCorrection(searchIndex, sanitizeStructuredQuery(query));
+  }, [searchIndex, fullyFilteredDevices.length, query]);
 
   // Helper function to build search params string
   const buildSearchParams = () =>
-    buildUrlParams(query, productLineFilter).toString();
+    buildUrlParams(query, facetSelection, hideIncompatible, sorting).toString();
 
   return {
     query,
     productLineFilter,
+    facetSelection,
+    filters,
+    sorting,
+    facetGroups,
+    hideIncompatible,
+    incompatibleDevices,
     fullyFilteredDevices,
+    searchSuggestion,
+    searchIndex,
+    searchSynonyms,
+    matchedFields,
     setQuery,
     setProductLineFilter,
+    setQueryAndProductLineFilter,
+    setFacetValues,
+    setHideIncompatible,
+    setFilters,
+    setSorting,
     buildSearchParams,
   };
 };
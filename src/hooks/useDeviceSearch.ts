@@ -1,18 +1,26 @@
 import { useMemo } from "react";
-import type { Device } from "../types/device";
-import { filterDevices } from "../utils/deviceFilters";
-import { sanitizeSearchQuery } from "../utils/securityUtils";
+import type { SearchSynonyms } from "../config/searchSynonyms";
+import { rankDevices, type RankedDevices } from "../utils/deviceFilters";
+import type { SearchIndex } from "../utils/searchIndex";
+import { sanitizeStructuredQuery } from "../utils/securityUtils";
 
 /**
  * Custom hook for filtering devices based on a search query.
  *
  * Uses React's useMemo to optimize performance by only recalculating the filtered
- * results when the devices array or search query changes. Delegates the actual
- * filtering logic to the filterDevices utility function.
+ * results when the search index or query changes. The index is built once per
+ * catalog load (see buildSearchIndex), so keystrokes only run lookups.
+ * Delegates the actual filtering logic to the rankDevices utility function,
+ * so the query may use the structured syntax from parseSearchQuery
+ * (e.g. `cap:poe ports>=24`), tolerates typos ("enterprize") and returns
+ * the best matches first. Words with synonyms (see DEFAULT_SEARCH_SYNONYMS)
+ * are expanded, so "camera" also finds UniFi Protect devices.
  *
- * @param {Device[]} devices - Array of devices to filter.
+ * @param {SearchIndex} index - Search index of the devices to filter.
  * @param {string} query - Search query string to filter devices by.
- * @returns {Device[]} Array of devices that match the search query.
+ * @param {SearchSynonyms} [synonyms] - Synonym dictionary to expand the query with.
+ * @returns {RankedDevices} Matching devices, most relevant first, and the
+ * identifier field each was found through (e.g. an FCC ID) if any.
  *
  * @example
  * ```tsx
@@ -20,7 +28,8 @@ import { sanitizeSearchQuery } from "../utils/securityUtils";
  *
  * function SearchableDeviceList({ devices }: { devices: Device[] }) {
  *   const [query, setQuery] = useState('');
- *   const filteredDevices = useDeviceSearch(devices, query);
+ *   const index = useMemo(() => buildSearchIndex(devices), [devices]);
+ *   const { devices: filteredDevices } = useDeviceSearch(index, query);
  *
  *   return (
  *     <div>
@@ -40,9 +49,13 @@ import { sanitizeSearchQuery } from "../utils/securityUtils";
  * }
  * ```
  */
-export const useDeviceSearch = (devices: Device[], query: string): Device[] => {
+export const useDeviceSearch = (
+  index: SearchIndex,
+  query: string,
+  synonyms?: SearchSynonyms
+): RankedDevices => {
   return useMemo(() => {
-    const sanitizedQuery = sanitizeSearchQuery(query);
-    return filterDevices(devices, sanitizedQuery);
-  }, [devices, query]);
+    const sanitizedQuery = sanitizeStructuredQuery(query);
+    return rankDevices(index, sanitizedQuery, synonyms);
+  }, [index, query, synonyms]);
 };
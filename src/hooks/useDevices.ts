@@ -1,61 +1,60 @@
 import { useQuery } from "@tanstack/react-query";
 import { type Device } from "../types/device";
+import type { CatalogSnapshot } from "../types/catalog";
 import { API_CONFIG } from "../config/api";
-import { getErrorMessage, logError } from "../utils/errorUtils";
-import { processDeviceResponse } from "../utils/validationUtils";
+import {
+  describeError,
+  getErrorMessage,
+  getRetryDelay,
+  shouldRetryRequest,
+} from "../utils/errorUtils";
+import { toAppError, type AppError } from "../utils/appErrors";
+import { deviceService } from "../services/deviceService";
 
 // Return type for the useDevices hook
 interface UseDevicesResult {
   devices: Device[] | null;
+  catalog: CatalogSnapshot | null;
   loading: boolean;
+  attempt: number; // 1-based attempt currently in flight (or last made)
+  maxAttempts: number; // Attempts allowed for the latest failure's category
   error: string | null;
+  failure: AppError | null; // Typed error behind `error`, for ErrorMessage
+  staleSince: number | null; // fetchedAt of the catalog still shown after a failed refresh
   refetch: () => Promise<unknown>;
 }
 
 // Custom hook for fetching and managing Ubiquiti devices data.
-// Returns devices, loading state, error, and refetch function.
+// Delegates loading to the shared deviceService so every screen sees the same
+// catalog, cache and validation report.
+// Returns devices, the full catalog snapshot, loading state, error, and refetch function.
+// A persisted catalog seeded at startup (see main.tsx) is served immediately and
+// revalidated in the background; if that refresh fails, the old data is kept and
+// staleSince tells the UI how old it is.
+// Refetches are conditional: when the server answers 304, the same devices array
+// comes back with a fresh fetchedAt, so memoized filtering isn't redone.
 export const useDevices = (): UseDevicesResult => {
-  const { data, isLoading, error, refetch } = useQuery({
-    queryKey: ["devices"],
-    queryFn: fetchDevices,
-    staleTime: API_CONFIG.CACHE_DURATION,
-  });
+  const { data, isLoading, error, failureCount, failureReason, refetch } =
+    useQuery({
+      queryKey: ["devices"],
+      // React Query aborts the signal when the last observer unmounts
+      queryFn: ({ signal }) => deviceService.loadCatalog({ signal }),
+      staleTime: API_CONFIG.CACHE_DURATION,
+      retry: shouldRetryRequest,
+      retryDelay: getRetryDelay,
+    });
 
   return {
-    devices: data || null,
+    devices: data?.devices || null,
+    catalog: data || null,
     loading: isLoading,
+    attempt: failureCount + 1,
+    maxAttempts: failureReason
+      ? describeError(failureReason).maxRetries + 1
+      : 1,
     error: error ? getErrorMessage(error) : null,
+    failure: error ? toAppError(error) : null,
+    staleSince: error && data ? data.fetchedAt : null,
     refetch,
   };
 };
-
-// Makes an HTTP request to the configured API endpoint and validates the response
-async function fetchDevices(): Promise<Device[]> {
-  try {
-    const response = await fetch(API_CONFIG.BASE_URL);
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch devices: ${response.status}`);
-    }
-
-    const rawData = await response.json();
-
-    // Process and validate the response with graceful degradation
-    const processedResponse = processDeviceResponse(rawData);
-
-    if (processedResponse.hasValidationErrors) {
-      // Log validation errors but continue with processed data
-      logError(
-        new Error("Device validation errors"),
-        "useDevices.fetchDevices",
-        { validationErrors: processedResponse.validationErrors }
-      );
-    }
-
-    return processedResponse.devices;
-  } catch (error) {
-    // Log the error and re-throw for React Query to handle
-    logError(error, "useDevices.fetchDevices");
-    throw error;
-  }
-}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from "react";
+import type { RecentSearch, SavedSearch, SearchEntry } from "../types/search";
+import {
+  readRecentSearches,
+  readSavedSearches,
+  RECENT_SEARCHES_KEY,
+  SAVED_SEARCHES_KEY,
+  writeRecentSearches,
+  writeSavedSearches,
+} from "../services/searchHistoryStore";
+import {
+  addRecentSearch,
+  createSavedSearch,
+  moveSavedSearch,
+} from "../utils/searchHistory";
+
+// How long a search has to stay unchanged before it counts as run, so the
+// intermediate queries committed while typing ("sw", "swit") aren't recorded
+const RECORD_DELAY = 1500;
+
+// Return type for the useSearchHistory hook
+export interface SearchHistory {
+  recent: RecentSearch[]; // Most recent first
+  saved: SavedSearch[]; // In the order the user arranged them
+  clearRecent: () => void;
+  save: (name: string, entry: SearchEntry) => void;
+  rename: (id: string, name: string) => void;
+  move: (id: string, offset: number) => void; // -1 moves up one place, 1 down
+  remove: (id: string) => void;
+}
+
+// Recent and saved searches, persisted in local storage and kept in sync
+// across tabs. The current search (query plus every filter) is recorded as
+// recent once it has settled.
+export const useSearchHistory = (current: SearchEntry): SearchHistory => {
+  const [recent, setRecent] = useState(readRecentSearches);
+  const [saved, setSaved] = useState(readSavedSearches);
+
+  useEffect(() => writeRecentSearches(recent), [recent]);
+  useEffect(() => writeSavedSearches(saved), [saved]);
+
+  // Another tab changed the lists
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === RECENT_SEARCHES_KEY) setRecent(readRecentSearches());
+      if (event.key === SAVED_SEARCHES_KEY) setSaved(readSavedSearches());
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setRecent((previous) => addRecentSearch(previous, current, Date.now()));
+    }, RECORD_DELAY);
+    return () => clearTimeout(timer);
+  }, [current]);
+
+  const clearRecent = useCallback(() => setRecent([]), []);
+
+  const save = useCallback((name: string, entry: SearchEntry) => {
+    setSaved((previous) => [
+      ...previous,
+      createSavedSearch(name, entry, Date.now()),
+    ]);
+  }, []);
+
+  const rename = useCallback((id: string, name: string) => {
+    if (!name.trim()) return;
+    setSaved((previous) =>
+      previous.map((search) =>
+        search.id === id ? { ...search, name: name.trim() } : search
+      )
+    );
+  }, []);
+
+  const move = useCallback((id: string, offset: number) => {
+    setSaved((previous) => moveSavedSearch(previous, id, offset));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setSaved((previous) => previous.filter((search) => search.id !== id));
+  }, []);
+
+  return { recent, saved, clearRecent, save, rename, move, remove };
+};
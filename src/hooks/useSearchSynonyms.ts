@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  DEFAULT_SEARCH_SYNONYMS,
+  type SearchSynonyms,
+} from "../config/searchSynonyms";
+import { loadSearchSynonyms } from "../services/synonymService";
+
+// Returns the search synonym dictionary: the bundled defaults until the team
+// dictionary (if any) has loaded, then the two merged.
+// Loaded once per session; the dictionary only changes on redeploy.
+export const useSearchSynonyms = (): SearchSynonyms => {
+  const { data } = useQuery({
+    queryKey: ["searchSynonyms"],
+    queryFn: ({ signal }) => loadSearchSynonyms(signal),
+    staleTime: Infinity,
+  });
+
+  return data || DEFAULT_SEARCH_SYNONYMS;
+};
@@ -4,11 +4,22 @@ import { BrowserRouter } from "react-router-dom";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { logBoundaryError } from "./utils/errorUtils";
+import { deviceService } from "./services/deviceService";
 import App from "./App.tsx";
 import "./index.css";
 
 const queryClient = new QueryClient();
 
+// Seed the devices query with the last persisted catalog so it renders straight away.
+// useDevices keeps revalidating in the background; never overwrite fresher data.
+deviceService.restorePersistedCatalog().then((snapshot) => {
+  if (snapshot && !queryClient.getQueryData(["devices"])) {
+    queryClient.setQueryData(["devices"], snapshot, {
+      updatedAt: snapshot.fetchedAt,
+    });
+  }
+});
+
 createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <ErrorBoundary
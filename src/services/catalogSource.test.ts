@@ -0,0 +1,130 @@
+import { createServer as createHttpServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createServer as createViteServer, type ViteDevServer } from "vite";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mockCatalogServer } from "../../mock/catalogMockServer";
+import { FIXTURE_NAMES, readFixture, type FixtureName } from "../test/fixtures";
+import {
+  HttpError,
+  NotFoundError,
+  TimeoutError,
+  ValidationError,
+} from "../utils/appErrors";
+import {
+  createFixtureCatalogSource,
+  createMockCatalogSource,
+} from "./catalogSource";
+import { DeviceService } from "./deviceService";
+
+// What each recorded fixture should load as
+const EXPECTED: Record<
+  FixtureName,
+  { version: string; devices: number; degraded: number }
+> = {
+  default: { version: "mock-2025.1", devices: 5, degraded: 0 },
+  partial: { version: "mock-2025.1-partial", devices: 4, degraded: 3 },
+  legacy: { version: "2019.3", devices: 5, degraded: 5 },
+};
+
+const service = DeviceService.getInstance();
+
+beforeAll(() => {
+  // Validation and load failures are logged; keep the test output readable
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("fixture source", () => {
+  it.each(FIXTURE_NAMES)("loads the %s fixture", async (name) => {
+    service.setSource(createFixtureCatalogSource(await readFixture(name)));
+    const snapshot = await service.loadCatalog();
+
+    expect(snapshot.source).toBe("fixture");
+    expect(snapshot.version).toBe(EXPECTED[name].version);
+    expect(snapshot.devices).toHaveLength(EXPECTED[name].devices);
+    expect(snapshot.degradedDevices).toHaveLength(EXPECTED[name].degraded);
+  });
+});
+
+describe("mock catalog server", () => {
+  let vite: ViteDevServer;
+  let server: Server;
+
+  beforeAll(async () => {
+    vite = await createViteServer({
+      configFile: false,
+      logLevel: "silent",
+      appType: "custom",
+      server: { middlewareMode: true, hmr: false, ws: false },
+      plugins: [mockCatalogServer()],
+    });
+    server = createHttpServer(vite.middlewares);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const origin = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    // The mock source uses a page-relative URL, as it would in the browser
+    const fetch = globalThis.fetch;
+    vi.stubGlobal("location", new URL(origin));
+    vi.stubGlobal("fetch", (input: string, init?: RequestInit) =>
+      fetch(new URL(input, origin), init)
+    );
+  });
+
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await vite.close();
+  });
+
+  it.each(FIXTURE_NAMES)("serves the %s fixture", async (name) => {
+    service.setSource(createMockCatalogSource({ fixture: name }));
+    const snapshot = await service.loadCatalog();
+
+    expect(snapshot.source).toBe("mock");
+    expect(snapshot.version).toBe(EXPECTED[name].version);
+    expect(snapshot.devices).toHaveLength(EXPECTED[name].devices);
+    expect(snapshot.degradedDevices).toHaveLength(EXPECTED[name].degraded);
+  });
+
+  it("answers a matching conditional request with 304", async () => {
+    const source = createMockCatalogSource();
+    const first = await source.load();
+    const second = await source.load({ validators: first.validators });
+
+    expect(first.validators.etag).toBeTruthy();
+    expect(second.notModified).toBe(true);
+  });
+
+  it("still loads the devices that survive the malformed scenario", async () => {
+    service.setSource(createMockCatalogSource({ scenario: "malformed" }));
+    const snapshot = await service.loadCatalog();
+
+    expect(snapshot.devices).toHaveLength(5);
+    expect(snapshot.validationErrors).toHaveLength(3);
+    expect(snapshot.schemaDrift?.unknownFields).not.toHaveLength(0);
+  });
+
+  it.each([
+    ["server-error", HttpError],
+    ["not-found", NotFoundError],
+    ["partial", ValidationError],
+    ["no-devices", ValidationError],
+  ])(
+    "reports the %s scenario as a typed error",
+    async (scenario, errorClass) => {
+      service.setSource(createMockCatalogSource({ scenario }));
+      await expect(service.loadCatalog()).rejects.toBeInstanceOf(errorClass);
+    }
+  );
+
+  it("rejects an unknown scenario with a 400", async () => {
+    service.setSource(createMockCatalogSource({ scenario: "sideways" }));
+    await expect(service.loadCatalog()).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("times out when the server hangs", async () => {
+    const source = createMockCatalogSource({ scenario: "hang" }, 200);
+    await expect(source.load()).rejects.toBeInstanceOf(TimeoutError);
+  });
+});
@@ -0,0 +1,263 @@
+import { API_CONFIG } from "../config/api";
+import type { CatalogSourceKind, CatalogValidators } from "../types/catalog";
+import {
+  HttpError,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+} from "../utils/appErrors";
+
+// Options for a single catalog load
+export interface CatalogLoadOptions {
+  signal?: AbortSignal; // Aborts the load; rejects with signal.reason
+  validators?: CatalogValidators; // From the cached catalog, to make the request conditional
+}
+
+// What a catalog load produced: either a fresh payload, or confirmation
+// that the cached catalog (identified by the validators sent) is still current
+export type CatalogLoadResult =
+  | { notModified: false; body: unknown; validators: CatalogValidators }
+  | { notModified: true; validators: CatalogValidators };
+
+// A pluggable place to load the raw catalog payload from.
+// Adapters only fetch; validation and caching happen once in DeviceService.
+export interface CatalogSource {
+  kind: CatalogSourceKind; // Which adapter this is
+  description: string; // Human readable origin, used in logs
+  // Resolves with the raw, unvalidated payload (response bytes or a parsed
+  // object), or notModified when the validators still match
+  load(options?: CatalogLoadOptions): Promise<CatalogLoadResult>;
+}
+
+// When a source sends If-None-Match/If-Modified-Since on refetches: always,
+// only when its URL is on the page's own origin, or never.
+// The headers aren't CORS-safelisted, so cross-origin they cost a preflight
+// and fail outright unless the server allows them.
+export type ConditionalRequestMode = "always" | "same-origin" | "never";
+
+// VITE_CONDITIONAL_REQUESTS only applies to the HTTP source; the snapshot and
+// mock server are same-origin files and always revalidate
+const HTTP_CONDITIONAL_REQUESTS: ConditionalRequestMode =
+  API_CONFIG.CONDITIONAL_REQUESTS === "true"
+    ? "always"
+    : API_CONFIG.CONDITIONAL_REQUESTS === "false"
+      ? "never"
+      : "same-origin";
+
+const shouldSendConditionalHeaders = (
+  url: string,
+  mode: ConditionalRequestMode
+): boolean => {
+  if (mode !== "same-origin") return mode === "always";
+  const base = globalThis.location?.href;
+  return !!base && new URL(url, base).origin === new URL(base).origin;
+};
+
+// Turns remembered validators into conditional request headers
+const toConditionalHeaders = (
+  url: string,
+  mode: ConditionalRequestMode,
+  validators?: CatalogValidators
+): HeadersInit => {
+  const headers: Record<string, string> = {};
+  if (!validators || !shouldSendConditionalHeaders(url, mode)) return headers;
+  if (validators.etag) headers["If-None-Match"] = validators.etag;
+  if (validators.lastModified) {
+    headers["If-Modified-Since"] = validators.lastModified;
+  }
+  return headers;
+};
+
+// Reads the validators a response offers for the next conditional request
+const readValidators = (response: Response): CatalogValidators => ({
+  etag: response.headers.get("ETag") ?? undefined,
+  lastModified: response.headers.get("Last-Modified") ?? undefined,
+});
+
+// Fetches a response body as an ArrayBuffer, translating failures into typed errors.
+// Aborts with a TimeoutError after timeoutMs; a caller abort rejects with the
+// caller's own abort reason so it can be told apart from a timeout.
+// With validators, sends If-None-Match/If-Modified-Since (as conditional
+// allows) and reports a 304 as notModified instead of downloading the
+// catalog again.
+async function fetchCatalogBody(
+  url: string,
+  timeoutMs: number,
+  conditional: ConditionalRequestMode,
+  { signal, validators }: CatalogLoadOptions = {}
+): Promise<CatalogLoadResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new TimeoutError(timeoutMs)),
+    timeoutMs
+  );
+  const onAbort = () => controller.abort(signal?.reason);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        signal: controller.signal,
+        headers: toConditionalHeaders(url, conditional, validators),
+      });
+    } catch (error) {
+      if (controller.signal.aborted) throw controller.signal.reason;
+      throw new NetworkError(`Network request to ${url} failed`, {
+        cause: error,
+      });
+    }
+
+    if (response.status === 304 && validators) {
+      // A 304 may omit validators it didn't change; keep the ones we sent
+      const refreshed = readValidators(response);
+      return {
+        notModified: true,
+        validators: {
+          etag: refreshed.etag ?? validators.etag,
+          lastModified: refreshed.lastModified ?? validators.lastModified,
+        },
+      };
+    }
+
+    if (response.status === 404) {
+      throw new NotFoundError();
+    }
+
+    if (!response.ok) {
+      throw new HttpError(response.status, url);
+    }
+
+    // Hand back the raw bytes; JSON parsing happens in the validation worker
+    try {
+      return {
+        notModified: false,
+        body: await response.arrayBuffer(),
+        validators: readValidators(response),
+      };
+    } catch (error) {
+      // Reading the body can also be cut short by the timeout or an abort
+      if (controller.signal.aborted) throw controller.signal.reason;
+      throw new NetworkError(`Reading the response from ${url} failed`, {
+        cause: error,
+      });
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// Loads the live catalog from the configured API endpoint.
+// The default endpoint, static.ui.com, is cross-origin and its CORS policy
+// doesn't allow the conditional headers, so by default this source never
+// revalidates and downloads the full catalog once the cache expires. Pass
+// "always" (VITE_CONDITIONAL_REQUESTS=true) for an endpoint or proxy that
+// allows If-None-Match/If-Modified-Since and exposes ETag.
+export const createHttpCatalogSource = (
+  url: string = API_CONFIG.BASE_URL,
+  timeoutMs: number = API_CONFIG.REQUEST_TIMEOUT,
+  conditional: ConditionalRequestMode = HTTP_CONDITIONAL_REQUESTS
+): CatalogSource => ({
+  kind: "http",
+  description: url,
+  load: (options) => fetchCatalogBody(url, timeoutMs, conditional, options),
+});
+
+// Loads the catalog snapshot bundled in public/catalog-snapshot.json, or
+// one you host yourself at VITE_CATALOG_SNAPSHOT_URL. Revalidates whenever
+// the snapshot is on the app's own origin.
+export const createStaticCatalogSource = (
+  url: string = API_CONFIG.SNAPSHOT_URL,
+  timeoutMs: number = API_CONFIG.REQUEST_TIMEOUT,
+  conditional: ConditionalRequestMode = "same-origin"
+): CatalogSource => ({
+  kind: "static",
+  description: url,
+  load: (options) => fetchCatalogBody(url, timeoutMs, conditional, options),
+});
+
+// Serves a catalog payload held in memory, handy for demos and tests.
+// Each load gets its own copy so consumers can't mutate the fixture.
+export const createFixtureCatalogSource = (
+  fixture: unknown = { devices: [], version: "fixture" }
+): CatalogSource => ({
+  kind: "fixture",
+  description: "in-memory fixture",
+  load: async ({ signal } = {}) => {
+    signal?.throwIfAborted();
+    return { notModified: false, body: structuredClone(fixture), validators: {} };
+  },
+});
+
+// Options for the dev-server mock catalog (mock/catalogMockServer.ts)
+export interface MockCatalogOptions {
+  scenario?: string; // Failure mode to simulate, e.g. "malformed" or "hang"
+  fixture?: string; // Recorded fixture name under mock/fixtures
+  latency?: number; // Extra delay before the server responds, in ms
+}
+
+// Loads the catalog from the mock server that `vite dev` serves.
+// Goes through the same fetch path as the live API, so every error path
+// (timeouts, HTTP errors, bad payloads) behaves exactly like production.
+export const createMockCatalogSource = (
+  {
+    scenario = API_CONFIG.MOCK_SCENARIO,
+    fixture,
+    latency,
+  }: MockCatalogOptions = {},
+  timeoutMs: number = API_CONFIG.REQUEST_TIMEOUT
+): CatalogSource => {
+  const params = new URLSearchParams({ scenario });
+  if (fixture) params.set("fixture", fixture);
+  if (latency) params.set("latency", String(latency));
+  const url = `${API_CONFIG.MOCK_URL}?${params}`;
+
+  return {
+    kind: "mock",
+    description: url,
+    load: (options) => fetchCatalogBody(url, timeoutMs, "same-origin", options),
+  };
+};
+
+// In development, `?mock=<scenario>` on the page URL (plus optional
+// `mockFixture` and `mockLatency`) switches to the mock server without
+// touching env files. Ignored in production builds.
+const getMockOptionsFromUrl = (): MockCatalogOptions | null => {
+  if (!import.meta.env.DEV || typeof window === "undefined") return null;
+
+  const params = new URLSearchParams(window.location.search);
+  const scenario = params.get("mock");
+  if (!scenario) return null;
+
+  return {
+    scenario,
+    fixture: params.get("mockFixture") || undefined,
+    latency: Number(params.get("mockLatency")) || undefined,
+  };
+};
+
+// Picks the adapter named by API_CONFIG.CATALOG_SOURCE (VITE_CATALOG_SOURCE).
+// Unknown values fall back to the live HTTP endpoint.
+export const createCatalogSource = (
+  kind: string = API_CONFIG.CATALOG_SOURCE
+): CatalogSource => {
+  const mockOptions = getMockOptionsFromUrl();
+  if (mockOptions) return createMockCatalogSource(mockOptions);
+
+  switch (kind) {
+    case "static":
+      return createStaticCatalogSource();
+    case "fixture":
+      return createFixtureCatalogSource();
+    case "mock":
+      return createMockCatalogSource();
+    default:
+      return createHttpCatalogSource();
+  }
+};
@@ -0,0 +1,181 @@
+import type { CatalogSnapshot, CatalogVersionSummary } from "../types/catalog";
+import { logError } from "../utils/errorUtils";
+
+// IndexedDB persistence for the last validated catalog and its version history.
+// Every function resolves quietly (null / empty / no-op) when IndexedDB is
+// unavailable, e.g. in private browsing or non-browser environments.
+
+const DB_NAME = "ubiquiti-viewer";
+const DB_VERSION = 2;
+const STORE_NAME = "catalog";
+const VERSIONS_STORE = "versions"; // CatalogVersionSummary keyed by version
+const VERSION_SNAPSHOTS_STORE = "versionSnapshots"; // CatalogSnapshot keyed by version
+const LATEST_KEY = "latest";
+// How many catalog versions to keep before pruning the oldest
+const MAX_VERSIONS = 10;
+
+// Wraps an IDBRequest in a promise
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolves once a readwrite transaction has been committed
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Opens (and on first use creates or upgrades) the catalog database
+function openDatabase(): Promise<IDBDatabase> | null {
+  if (typeof indexedDB === "undefined") return null;
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    for (const name of [STORE_NAME, VERSIONS_STORE, VERSION_SNAPSHOTS_STORE]) {
+      if (!db.objectStoreNames.contains(name)) {
+        db.createObjectStore(name);
+      }
+    }
+  };
+  return requestToPromise(request);
+}
+
+// Opens the database, runs the callback and always closes it again.
+// Resolves with the fallback if IndexedDB is missing or anything throws.
+async function withDatabase<T>(
+  context: string,
+  fallback: T,
+  run: (db: IDBDatabase) => Promise<T>
+): Promise<T> {
+  try {
+    const dbPromise = openDatabase();
+    if (!dbPromise) return fallback;
+
+    const db = await dbPromise;
+    try {
+      return await run(db);
+    } finally {
+      db.close();
+    }
+  } catch (error) {
+    logError(error, `catalogStore.${context}`);
+    return fallback;
+  }
+}
+
+// Minimal shape check so a corrupted record never reaches the UI
+function isCatalogSnapshot(value: unknown): value is CatalogSnapshot {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Partial<CatalogSnapshot>;
+  return Array.isArray(record.devices) && typeof record.fetchedAt === "number";
+}
+
+// Reads the last persisted catalog snapshot, or null if there isn't one
+export function readPersistedCatalog(): Promise<CatalogSnapshot | null> {
+  return withDatabase("readPersistedCatalog", null, async (db) => {
+    const record = await requestToPromise(
+      db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(LATEST_KEY)
+    );
+    return isCatalogSnapshot(record) ? record : null;
+  });
+}
+
+// Stores a validated catalog snapshot, replacing the previous one
+export function persistCatalog(snapshot: CatalogSnapshot): Promise<void> {
+  return withDatabase("persistCatalog", undefined, async (db) => {
+    await requestToPromise(
+      db
+        .transaction(STORE_NAME, "readwrite")
+        .objectStore(STORE_NAME)
+        .put(snapshot, LATEST_KEY)
+    );
+  });
+}
+
+// Removes the persisted catalog snapshot
+export function clearPersistedCatalog(): Promise<void> {
+  return withDatabase("clearPersistedCatalog", undefined, async (db) => {
+    await requestToPromise(
+      db
+        .transaction(STORE_NAME, "readwrite")
+        .objectStore(STORE_NAME)
+        .delete(LATEST_KEY)
+    );
+  });
+}
+
+// Keeps a copy of each distinct catalog version for the "what changed" view.
+// Versions already on record are left untouched so firstSeenAt stays accurate.
+export function recordCatalogVersion(snapshot: CatalogSnapshot): Promise<void> {
+  if (!snapshot.version) return Promise.resolve();
+
+  return withDatabase("recordCatalogVersion", undefined, async (db) => {
+    const transaction = db.transaction(
+      [VERSIONS_STORE, VERSION_SNAPSHOTS_STORE],
+      "readwrite"
+    );
+    const done = transactionDone(transaction);
+    const versions = transaction.objectStore(VERSIONS_STORE);
+    const snapshots = transaction.objectStore(VERSION_SNAPSHOTS_STORE);
+
+    const existing = await requestToPromise(
+      versions.getAll() as IDBRequest<CatalogVersionSummary[]>
+    );
+
+    if (!existing.some((entry) => entry.version === snapshot.version)) {
+      const summary: CatalogVersionSummary = {
+        version: snapshot.version,
+        firstSeenAt: snapshot.fetchedAt,
+        deviceCount: snapshot.devices.length,
+      };
+      versions.put(summary, summary.version);
+      snapshots.put(snapshot, snapshot.version);
+
+      // Prune the oldest versions beyond the limit
+      const ordered = [...existing, summary].sort(
+        (a, b) => b.firstSeenAt - a.firstSeenAt
+      );
+      for (const stale of ordered.slice(MAX_VERSIONS)) {
+        versions.delete(stale.version);
+        snapshots.delete(stale.version);
+      }
+    }
+
+    await done;
+  });
+}
+
+// Lists the catalog versions on record, newest first
+export function listCatalogVersions(): Promise<CatalogVersionSummary[]> {
+  return withDatabase("listCatalogVersions", [], async (db) => {
+    const summaries = await requestToPromise(
+      db
+        .transaction(VERSIONS_STORE, "readonly")
+        .objectStore(VERSIONS_STORE)
+        .getAll() as IDBRequest<CatalogVersionSummary[]>
+    );
+    return summaries.sort((a, b) => b.firstSeenAt - a.firstSeenAt);
+  });
+}
+
+// Reads the snapshot recorded for a catalog version, or null if it's gone
+export function readCatalogVersion(
+  version: string
+): Promise<CatalogSnapshot | null> {
+  return withDatabase("readCatalogVersion", null, async (db) => {
+    const record = await requestToPromise(
+      db
+        .transaction(VERSION_SNAPSHOTS_STORE, "readonly")
+        .objectStore(VERSION_SNAPSHOTS_STORE)
+        .get(version)
+    );
+    return isCatalogSnapshot(record) ? record : null;
+  });
+}
@@ -0,0 +1,118 @@
+import type {
+  CatalogValidationRequest,
+  CatalogValidationResponse,
+} from "../types/catalog";
+import { AppError, ValidationError } from "../utils/appErrors";
+import type { ProcessedDeviceResponse } from "../utils/validationUtils";
+
+// Main-thread client for the catalog validation worker.
+// One worker is started lazily and reused; requests are matched to replies by id.
+// Falls back to validating on the main thread where workers aren't available.
+
+interface PendingRequest {
+  resolve: (result: ProcessedDeviceResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, PendingRequest>();
+
+// Rebuilds a typed error from the flattened form the worker posts back
+function toWorkerError(error: { name: string; message: string }): AppError {
+  return error.name === "ValidationError"
+    ? new ValidationError(error.message)
+    : new AppError(error.message);
+}
+
+// Starts the worker on first use; null if this environment has no workers
+function getWorker(): Worker | null {
+  if (typeof Worker === "undefined") return null;
+
+  if (!worker) {
+    worker = new Worker(
+      new URL("../workers/catalogValidation.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+
+    worker.onmessage = (event: MessageEvent<CatalogValidationResponse>) => {
+      const reply = event.data;
+      const request = pendingRequests.get(reply.id);
+      if (!request) return; // Caller already gave up
+
+      pendingRequests.delete(reply.id);
+      if (reply.ok) {
+        request.resolve(reply.result);
+      } else {
+        request.reject(toWorkerError(reply.error));
+      }
+    };
+
+    // A crashed worker fails everything in flight; the next call starts a new one
+    worker.onerror = (event) => {
+      event.preventDefault();
+      const error = new AppError(
+        `Catalog validation worker failed: ${event.message}`
+      );
+      pendingRequests.forEach((request) => request.reject(error));
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+
+  return worker;
+}
+
+/**
+ * Parses and validates a raw catalog payload in the validation worker.
+ * ArrayBuffer bodies are transferred rather than copied, so the caller must
+ * not use them afterwards.
+ *
+ * @param payload - Raw body (ArrayBuffer or string) or an already-parsed object
+ * @param signal - Optional signal; aborting rejects with its reason
+ * @returns Validated devices, catalog version and the validation report
+ */
+export function validateCatalogPayload(
+  payload: unknown,
+  signal?: AbortSignal
+): Promise<ProcessedDeviceResponse> {
+  const target = getWorker();
+  if (!target) {
+    // Loaded on demand so Zod stays out of the main bundle
+    return import("../utils/validationUtils").then(({ parseCatalogPayload }) =>
+      parseCatalogPayload(payload)
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const id = nextRequestId++;
+    const onAbort = () => {
+      pendingRequests.delete(id);
+      reject(signal?.reason);
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    pendingRequests.set(id, {
+      resolve: (result) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(result);
+      },
+      reject: (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    });
+
+    const request: CatalogValidationRequest = { id, payload };
+    target.postMessage(
+      request,
+      payload instanceof ArrayBuffer ? [payload] : []
+    );
+  });
+}
@@ -0,0 +1,41 @@
+import { logError } from "../utils/errorUtils";
+
+// Local storage persistence for the Network application version the user
+// entered, so device compatibility survives reloads.
+// Reads resolve to "" and writes are dropped when storage is unavailable.
+
+export const CONTROLLER_VERSION_KEY = "ubiquiti-viewer:controller-version";
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage;
+  } catch {
+    // Accessing localStorage throws when cookies are blocked
+    return null;
+  }
+};
+
+export const readControllerVersion = (): string => {
+  try {
+    return getStorage()?.getItem(CONTROLLER_VERSION_KEY) || "";
+  } catch (error) {
+    logError(error, "controllerVersionStore.readControllerVersion");
+    return "";
+  }
+};
+
+// An empty version forgets the stored one
+export const writeControllerVersion = (version: string): void => {
+  const storage = getStorage();
+  if (!storage) return;
+
+  try {
+    if (version) {
+      storage.setItem(CONTROLLER_VERSION_KEY, version);
+    } else {
+      storage.removeItem(CONTROLLER_VERSION_KEY);
+    }
+  } catch (error) {
+    logError(error, "controllerVersionStore.writeControllerVersion");
+  }
+};
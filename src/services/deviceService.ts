@@ -1,7 +1,15 @@
 import type { Device } from "../types/device";
+import type { CatalogSnapshot, CatalogValidators } from "../types/catalog";
 import { API_CONFIG } from "../config/api";
 import { getErrorMessage, logError } from "../utils/errorUtils";
-import { processDeviceResponse } from "../utils/validationUtils";
+import { ValidationError } from "../utils/appErrors";
+import { createCatalogSource, type CatalogSource } from "./catalogSource";
+import { validateCatalogPayload } from "./catalogValidator";
+import {
+  persistCatalog,
+  readPersistedCatalog,
+  recordCatalogVersion,
+} from "./catalogStore";
 
 // What you get back from device service operations
 export interface DeviceServiceResult {
@@ -10,16 +18,28 @@ export interface DeviceServiceResult {
   error: string | null; // Error details if something went wrong, or null if it worked
 }
 
-// Handles getting and storing Ubiquiti device data from the API.
+// A shared in-flight catalog load. It's only aborted once every caller that
+// passed a signal has given up, so one unmounting screen can't cancel another's load.
+interface PendingLoad {
+  promise: Promise<CatalogSnapshot>;
+  controller: AbortController;
+  waiters: number;
+}
+
+// Handles getting and storing Ubiquiti device data from the configured catalog source.
 // Uses a singleton setup so everyone gets the same cached data.
 // Caches stuff to avoid hitting the API too much and keep things snappy.
 export class DeviceService {
   // The one and only instance of this service
   private static instance: DeviceService;
-  // Stored device data
-  private cache: Device[] | null = null;
+  // Where the raw catalog payload comes from
+  private source: CatalogSource = createCatalogSource();
+  // Stored catalog snapshot (devices, version and validation report)
+  private cache: CatalogSnapshot | null = null;
   // When we last updated the cache
   private cacheTimestamp: number | null = null;
+  // Load currently in flight, shared so concurrent callers don't double-fetch
+  private pending: PendingLoad | null = null;
   // How long to keep cache in milliseconds from API config
   private readonly CACHE_DURATION = API_CONFIG.CACHE_DURATION;
 
@@ -35,60 +55,225 @@ export class DeviceService {
     return DeviceService.instance;
   }
 
-  // Gets device data from the API, using cache when possible.
-  // Returns stored data if it's still good, otherwise hits the API fresh.
-  // Deals with errors and gives helpful messages.
-  async fetchDevices(): Promise<DeviceServiceResult> {
-    try {
-      // Check cache first
-      if (this.isCacheValid()) {
-        return {
-          data: this.cache,
-          loading: false,
-          error: null,
-        };
-      }
+  // Swaps the catalog adapter (e.g. a fixture in tests) and drops the old cache.
+  setSource(source: CatalogSource): void {
+    this.source = source;
+    this.pending?.controller.abort();
+    this.pending = null;
+    this.clearCache();
+  }
 
-      console.log("Making API request to:", API_CONFIG.BASE_URL);
-      const response = await fetch(API_CONFIG.BASE_URL);
+  // The adapter currently used to load the catalog.
+  getSource(): CatalogSource {
+    return this.source;
+  }
+
+  // Loads and validates the catalog, using cache when possible.
+  // Throws on failure so callers like React Query can handle the error themselves.
+  // Pass a signal to stop waiting (e.g. on unmount); the request itself is
+  // aborted when no one is waiting for it any more.
+  async loadCatalog(options: { signal?: AbortSignal } = {}): Promise<CatalogSnapshot> {
+    if (this.isCacheValid()) {
+      return this.cache!;
+    }
+
+    if (!this.pending) {
+      const source = this.source;
+      const controller = new AbortController();
+      const pending: PendingLoad = {
+        controller,
+        waiters: 0,
+        promise: this.loadFromSource(source, controller.signal).finally(() => {
+          if (this.pending === pending) this.pending = null;
+        }),
+      };
+      this.pending = pending;
+    }
+
+    return this.waitForLoad(this.pending, options.signal);
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+  // Waits on a shared load until it settles or the caller's signal aborts
+  private waitForLoad(
+    pending: PendingLoad,
+    signal?: AbortSignal
+  ): Promise<CatalogSnapshot> {
+    pending.waiters++;
+    if (!signal) return pending.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        pending.waiters--;
+        if (pending.waiters === 0) {
+          // Forget it right away, so a caller arriving in the same tick
+          // (StrictMode remounts) starts a fresh load instead of joining this one
+          if (this.pending === pending) this.pending = null;
+          pending.controller.abort(signal.reason);
+        }
+        reject(signal.reason);
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
       }
 
-      const rawData = await response.json();
+      signal.addEventListener("abort", onAbort, { once: true });
+      pending.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  // Runs the fetch -> validate -> cache pipeline against one adapter
+  private async loadFromSource(
+    source: CatalogSource,
+    signal: AbortSignal
+  ): Promise<CatalogSnapshot> {
+    // An expired cache can still be revalidated instead of downloaded again
+    const previous = this.cache;
+
+    try {
+      const result = await source.load({
+        signal,
+        validators: previous?.validators,
+      });
+
+      if (result.notModified && previous) {
+        return this.refreshCachedCatalog(source, previous, result.validators);
+      }
+      if (result.notModified) {
+        // Only possible if validators were sent without a cache to fall back on
+        throw new ValidationError("Catalog reported unchanged but nothing is cached");
+      }
 
-      // Process and validate the response with graceful degradation
-      const processedResponse = processDeviceResponse(rawData);
+      // Parse and validate off the main thread, with graceful degradation
+      const processedResponse = await validateCatalogPayload(
+        result.body,
+        signal
+      );
 
       if (processedResponse.hasValidationErrors) {
         // Log validation errors but continue with processed data
         logError(
           new Error("Device validation errors"),
-          "DeviceService.fetchDevices",
+          "DeviceService.loadCatalog",
           { validationErrors: processedResponse.validationErrors }
         );
       }
 
-      // Cache the validated result
-      this.cache = processedResponse.devices;
-      this.cacheTimestamp = Date.now();
+      const { unknownFields, typeMismatches } = processedResponse.schemaDrift;
+      if (
+        import.meta.env.DEV &&
+        (unknownFields.length > 0 || typeMismatches.length > 0)
+      ) {
+        // Upstream format changed; the data still loads but the schema needs a
+        // look. Users see the same report in the diagnostics drawer.
+        console.warn("Catalog schema drift detected:", {
+          unknownFields: unknownFields.map((field) => field.path),
+          typeMismatches: typeMismatches.map((field) => field.path),
+        });
+      }
 
-      return {
-        data: processedResponse.devices,
-        loading: false,
-        error: null,
+      const snapshot: CatalogSnapshot = {
+        devices: processedResponse.devices,
+        version: processedResponse.version,
+        validationErrors: processedResponse.validationErrors,
+        validationIssues: processedResponse.validationIssues,
+        degradedDevices: processedResponse.degradedDevices,
+        schemaDrift: processedResponse.schemaDrift,
+        source: source.kind,
+        fetchedAt: Date.now(),
+        validators: result.validators,
       };
+
+      // Only cache if nobody swapped the source while we were loading
+      if (this.source === source) {
+        this.cache = snapshot;
+        this.cacheTimestamp = snapshot.fetchedAt;
+        // Keep the last good catalog around for offline startups,
+        // and a copy per version for the changes view. Simulated data from
+        // the mock server must not replace the real offline copy or history.
+        if (source.kind !== "mock") {
+          void persistCatalog(snapshot);
+          void recordCatalogVersion(snapshot);
+        }
+      }
+
+      return snapshot;
     } catch (error) {
-      const errorMessage = getErrorMessage(error);
+      // Nobody is waiting for an aborted load, so there's nothing to report
+      if (signal.aborted) throw error;
 
       // Log the error with context
-      logError(error, "DeviceService.fetchDevices");
+      logError(error, "DeviceService.loadCatalog", {
+        source: source.kind,
+        origin: source.description,
+      });
+      throw error;
+    }
+  }
+
+  // The server confirmed the cached catalog is current (304): keep its data,
+  // but restart the cache clock and remember any updated validators
+  private refreshCachedCatalog(
+    source: CatalogSource,
+    previous: CatalogSnapshot,
+    validators: CatalogValidators
+  ): CatalogSnapshot {
+    const snapshot: CatalogSnapshot = {
+      ...previous,
+      fetchedAt: Date.now(),
+      validators,
+    };
+
+    if (this.source === source) {
+      this.cache = snapshot;
+      this.cacheTimestamp = snapshot.fetchedAt;
+      // Persist the new timestamp so the offline copy isn't reported as older than it is
+      if (source.kind !== "mock") void persistCatalog(snapshot);
+    }
+
+    return snapshot;
+  }
+
+  // Restores the last catalog persisted in IndexedDB so it can be shown
+  // immediately while a fresh copy loads in the background.
+  // Ignores snapshots produced by a different kind of source.
+  async restorePersistedCatalog(): Promise<CatalogSnapshot | null> {
+    const source = this.source;
+    const snapshot = await readPersistedCatalog();
+
+    if (!snapshot || snapshot.source !== source.kind || this.source !== source) {
+      return null;
+    }
+
+    // Seed the memory cache with the original timestamp so expiry still applies
+    if (!this.cache) {
+      this.cache = snapshot;
+      this.cacheTimestamp = snapshot.fetchedAt;
+    }
+
+    return snapshot;
+  }
+
+  // Gets device data from the catalog, using cache when possible.
+  // Returns stored data if it's still good, otherwise loads it fresh.
+  // Deals with errors and gives helpful messages.
+  async fetchDevices(): Promise<DeviceServiceResult> {
+    try {
+      const snapshot = await this.loadCatalog();
 
+      return {
+        data: snapshot.devices,
+        loading: false,
+        error: null,
+      };
+    } catch (error) {
       return {
         data: null,
         loading: false,
-        error: errorMessage,
+        error: getErrorMessage(error),
       };
     }
   }
@@ -102,7 +287,7 @@ export class DeviceService {
     );
   }
 
-  // Wipes the cache, so the next fetchDevices will hit the API fresh.
+  // Wipes the cache, so the next fetchDevices will hit the source fresh.
   clearCache(): void {
     this.cache = null;
     this.cacheTimestamp = null;
@@ -111,6 +296,11 @@ export class DeviceService {
   // Gets the stored devices if the cache is still good.
   // Returns null if there's no usable cache.
   getCachedDevices(): Device[] | null {
+    return this.isCacheValid() ? this.cache!.devices : null;
+  }
+
+  // Gets the stored catalog snapshot if the cache is still good.
+  getCachedCatalog(): CatalogSnapshot | null {
     return this.isCacheValid() ? this.cache : null;
   }
 }
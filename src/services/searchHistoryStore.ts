@@ -0,0 +1,116 @@
+import type { RecentSearch, SavedSearch, SearchEntry } from "../types/search";
+import type { FacetSelection } from "../utils/deviceFacets";
+import { logError } from "../utils/errorUtils";
+
+// Local storage persistence for recent and saved searches.
+// Reads resolve to an empty list and writes are dropped when storage is
+// unavailable (private browsing, quota, non-browser environments).
+// Entries that don't validate are skipped, so one bad record can't hide the rest.
+// The checks are hand-written so Zod stays out of the main bundle.
+
+export const RECENT_SEARCHES_KEY = "ubiquiti-viewer:recent-searches";
+export const SAVED_SEARCHES_KEY = "ubiquiti-viewer:saved-searches";
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage;
+  } catch {
+    // Accessing localStorage throws when cookies are blocked
+    return null;
+  }
+};
+
+const isSelection = (value: unknown): value is FacetSelection =>
+  !!value &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  Object.values(value).every(
+    (values) =>
+      Array.isArray(values) && values.every((item) => typeof item === "string")
+  );
+
+// The filters of a stored entry, or null if they're malformed. Searches
+// stored before they kept every filter only have `lines`, the product line
+// filter; they're read as a selection of just that facet.
+function readSearchEntry(value: unknown): SearchEntry | null {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  const upgraded = !("selection" in record);
+  const lines = record.lines;
+  const selection = upgraded
+    ? Array.isArray(lines) && lines.length > 0
+      ? { lines }
+      : {}
+    : record.selection;
+  const hideIncompatible = upgraded ? false : record.hideIncompatible;
+
+  if (
+    typeof record.query !== "string" ||
+    !isSelection(selection) ||
+    typeof hideIncompatible !== "boolean"
+  ) {
+    return null;
+  }
+  return { query: record.query, selection, hideIncompatible };
+}
+
+function readRecentSearch(value: unknown): RecentSearch | null {
+  const entry = readSearchEntry(value);
+  const { usedAt } = (value ?? {}) as Partial<RecentSearch>;
+  return entry && typeof usedAt === "number" ? { ...entry, usedAt } : null;
+}
+
+function readSavedSearch(value: unknown): SavedSearch | null {
+  const entry = readSearchEntry(value);
+  const { id, name, createdAt } = (value ?? {}) as Partial<SavedSearch>;
+  return entry &&
+    typeof id === "string" &&
+    typeof name === "string" &&
+    typeof createdAt === "number"
+    ? { ...entry, id, name, createdAt }
+    : null;
+}
+
+function readList<T>(key: string, read: (entry: unknown) => T | null): T[] {
+  const storage = getStorage();
+  if (!storage) return [];
+
+  try {
+    const raw = storage.getItem(key);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((entry) => {
+      const result = read(entry);
+      return result ? [result] : [];
+    });
+  } catch (error) {
+    logError(error, "searchHistoryStore.readList", { key });
+    return [];
+  }
+}
+
+function writeList(key: string, entries: unknown[]): void {
+  const storage = getStorage();
+  if (!storage) return;
+
+  try {
+    storage.setItem(key, JSON.stringify(entries));
+  } catch (error) {
+    logError(error, "searchHistoryStore.writeList", { key });
+  }
+}
+
+// Recent searches, most recent first
+export const readRecentSearches = (): RecentSearch[] =>
+  readList(RECENT_SEARCHES_KEY, readRecentSearch);
+
+export const writeRecentSearches = (searches: RecentSearch[]): void =>
+  writeList(RECENT_SEARCHES_KEY, searches);
+
+// Saved searches, in the order the user arranged them
+export const readSavedSearches = (): SavedSearch[] =>
+  readList(SAVED_SEARCHES_KEY, readSavedSearch);
+
+export const writeSavedSearches = (searches: SavedSearch[]): void =>
+  writeList(SAVED_SEARCHES_KEY, searches);
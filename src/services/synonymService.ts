@@ -0,0 +1,51 @@
+import { API_CONFIG } from "../config/api";
+import {
+  DEFAULT_SEARCH_SYNONYMS,
+  type SearchSynonyms,
+} from "../config/searchSynonyms";
+import { HttpError, ValidationError } from "../utils/appErrors";
+import { logError } from "../utils/errorUtils";
+import { mergeSearchSynonyms } from "../utils/searchSynonyms";
+
+// Shape check for a team dictionary: an object of term -> list of queries.
+// Hand-written so Zod stays out of the main bundle.
+function isSearchSynonyms(value: unknown): value is SearchSynonyms {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  return Object.values(value).every(
+    (queries) =>
+      Array.isArray(queries) &&
+      queries.every((query) => typeof query === "string")
+  );
+}
+
+// Loads the search synonym dictionary: the bundled defaults, with the team
+// dictionary at API_CONFIG.SYNONYMS_URL (a JSON object of term -> queries)
+// merged over them when one is configured.
+// Never throws; search keeps working with the defaults if the team file is
+// missing or malformed, and the problem is logged.
+export const loadSearchSynonyms = async (
+  signal?: AbortSignal
+): Promise<SearchSynonyms> => {
+  if (!API_CONFIG.SYNONYMS_URL) return DEFAULT_SEARCH_SYNONYMS;
+
+  try {
+    const response = await fetch(API_CONFIG.SYNONYMS_URL, { signal });
+    if (!response.ok) {
+      throw new HttpError(response.status, API_CONFIG.SYNONYMS_URL);
+    }
+
+    const synonyms: unknown = await response.json();
+    if (!isSearchSynonyms(synonyms)) {
+      throw new ValidationError(
+        "Invalid search synonyms: expected an object of term -> list of queries"
+      );
+    }
+    return mergeSearchSynonyms(DEFAULT_SEARCH_SYNONYMS, synonyms);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    logError(error, "synonymService.loadSearchSynonyms", {
+      url: API_CONFIG.SYNONYMS_URL,
+    });
+    return DEFAULT_SEARCH_SYNONYMS;
+  }
+};
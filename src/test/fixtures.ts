@@ -0,0 +1,24 @@
+import { readFile } from "node:fs/promises";
+import type { Device } from "../types/device";
+import { parseCatalogPayload } from "../utils/validationUtils";
+
+// Shared helpers for tests that run against the recorded catalog fixtures in
+// mock/fixtures (the same files the dev-server mock catalog serves)
+
+export const FIXTURE_NAMES = ["default", "partial", "legacy"] as const;
+
+export type FixtureName = (typeof FIXTURE_NAMES)[number];
+
+// The raw DeviceResponse payload, as recorded
+export const readFixture = async (name: FixtureName): Promise<unknown> =>
+  JSON.parse(
+    await readFile(
+      new URL(`../../mock/fixtures/${name}.json`, import.meta.url),
+      "utf8"
+    )
+  );
+
+// The fixture's devices after validation, as the app would see them
+export const loadFixtureDevices = async (
+  name: FixtureName = "default"
+): Promise<Device[]> => parseCatalogPayload(await readFixture(name)).devices;
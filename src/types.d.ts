@@ -1,3 +1,5 @@
+/// <reference types="vite/client" />
+
 declare module "*.module.css" {
   const classes: { readonly [key: string]: string };
   export default classes;
@@ -6,10 +8,14 @@ declare module "*.module.css" {
 // CSS files
 declare module "*.css";
 
-/// <reference types="vite/client" />
-
 interface ImportMetaEnv {
   readonly VITE_API_URL: string;
+  readonly VITE_CATALOG_SOURCE?: string;
+  readonly VITE_CATALOG_SNAPSHOT_URL?: string;
+  readonly VITE_REQUEST_TIMEOUT_MS?: string;
+  readonly VITE_MOCK_SCENARIO?: string;
+  readonly VITE_CONDITIONAL_REQUESTS?: string;
+  readonly VITE_SEARCH_SYNONYMS_URL?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,59 @@
+// Type definitions for the device catalog as a whole (as opposed to single devices)
+import type { Device } from "./device";
+import type { ProcessedDeviceResponse } from "../utils/validationUtils";
+import type { SchemaDriftReport } from "../utils/schemaDrift";
+
+// Where catalog data can come from
+export type CatalogSourceKind = "http" | "static" | "fixture" | "mock";
+
+// One schema failure for one device, as reported by Zod
+export interface DeviceValidationIssue {
+  deviceIndex: number; // Position of the device in the raw payload
+  deviceId: string | null; // Raw device id, null when the id itself is unusable
+  path: string; // Dotted Zod issue path within the device, e.g. "unifi.network.model"
+  message: string; // Zod issue message
+  received: unknown; // Raw value found at that path (undefined if missing)
+}
+
+// A device that failed validation and was rebuilt by createSafeDevice
+export interface DegradedDevice {
+  deviceId: string; // Id of the rebuilt device (may itself be a substituted default)
+  substitutedFields: string[]; // Required fields filled in with safe defaults (may be empty)
+}
+
+// HTTP cache validators from the last full catalog response
+export interface CatalogValidators {
+  etag?: string; // ETag response header, sent back as If-None-Match
+  lastModified?: string; // Last-Modified response header, sent back as If-Modified-Since
+}
+
+// A validated catalog load, shared by every consumer of the data layer
+export interface CatalogSnapshot {
+  devices: Device[]; // Validated (or safely rebuilt) devices
+  version: string; // Catalog version reported by the payload, empty if missing
+  validationErrors: string[]; // Validation report from processDeviceResponse
+  validationIssues?: DeviceValidationIssue[]; // Structured failures (absent in older persisted snapshots)
+  degradedDevices?: DegradedDevice[]; // Devices rebuilt from safe defaults
+  schemaDrift?: SchemaDriftReport; // Payload vs. DeviceSchema differences (absent in older persisted snapshots)
+  source: CatalogSourceKind; // Adapter that produced the payload
+  fetchedAt: number; // Epoch millis when the payload was loaded (or last confirmed unchanged)
+  validators?: CatalogValidators; // For conditional requests; absent for non-HTTP sources
+}
+
+// Lightweight record of a catalog version seen by the app
+export interface CatalogVersionSummary {
+  version: string; // Catalog version string from the payload
+  firstSeenAt: number; // Epoch millis when this version was first loaded
+  deviceCount: number; // Number of devices in that version
+}
+
+// Message posted to the catalog validation worker
+export interface CatalogValidationRequest {
+  id: number; // Correlates the reply with the request
+  payload: unknown; // Raw body (ArrayBuffer/string) or already-parsed object
+}
+
+// Reply posted back by the catalog validation worker
+export type CatalogValidationResponse =
+  | { id: number; ok: true; result: ProcessedDeviceResponse }
+  | { id: number; ok: false; error: { name: string; message: string } };
@@ -0,0 +1,23 @@
+// Type definitions for remembered searches (recent and saved)
+import type { FacetSelection } from "../utils/deviceFacets";
+
+// A search as it appears in the URL: the query, every facet value (product
+// lines, region and spec facets) and the compatibility filter, so applying a
+// remembered search shows the same devices again
+export interface SearchEntry {
+  query: string; // Search bar text, trimmed; may be empty when only filters are set
+  selection: FacetSelection; // Facet values by URL parameter; excluded ones start with "-"
+  hideIncompatible: boolean; // Hide devices the user's Network version can't adopt
+}
+
+// A search the user ran, remembered in local storage
+export interface RecentSearch extends SearchEntry {
+  usedAt: number; // Epoch millis of the last time it was run
+}
+
+// A named search the user pinned
+export interface SavedSearch extends SearchEntry {
+  id: string; // Stable id, so renames and reorders don't lose track of it
+  name: string; // User-chosen name
+  createdAt: number; // Epoch millis
+}
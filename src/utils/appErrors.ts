@@ -0,0 +1,153 @@
+/**
+ * Typed errors thrown by the catalog fetch layer.
+ *
+ * Each error carries a `category` so the UI and retry logic can branch on the
+ * kind of failure instead of searching the message text.
+ */
+
+/**
+ * Failure categories understood by describeError and the retry policy.
+ */
+export type ErrorCategory =
+  | "http"
+  | "network"
+  | "timeout"
+  | "cancelled"
+  | "validation"
+  | "notFound"
+  | "unknown";
+
+/**
+ * Base class for all application errors.
+ */
+export class AppError extends Error {
+  readonly category: ErrorCategory;
+
+  constructor(
+    message: string,
+    category: ErrorCategory = "unknown",
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "AppError";
+    this.category = category;
+  }
+}
+
+/**
+ * The server answered with a non-2xx status (other than 404).
+ */
+export class HttpError extends AppError {
+  readonly status: number;
+  readonly url?: string;
+
+  constructor(status: number, url?: string, options?: ErrorOptions) {
+    super(`HTTP error! status: ${status}`, "http", options);
+    this.name = "HttpError";
+    this.status = status;
+    this.url = url;
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS, CORS, connection reset).
+ */
+export class NetworkError extends AppError {
+  constructor(message = "Network request failed", options?: ErrorOptions) {
+    super(message, "network", options);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * The request took longer than allowed and was aborted.
+ */
+export class TimeoutError extends AppError {
+  readonly timeoutMs?: number;
+
+  constructor(timeoutMs?: number, options?: ErrorOptions) {
+    super(
+      timeoutMs ? `Request timed out after ${timeoutMs} ms` : "Request timed out",
+      "timeout",
+      options
+    );
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The caller gave up on the request (unmount, navigation, a cancelled query).
+ * Nothing went wrong, so it's never retried.
+ */
+export class CancelledError extends AppError {
+  constructor(options?: ErrorOptions) {
+    super("Request was cancelled", "cancelled", options);
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * The payload arrived but isn't a usable catalog (bad JSON, missing devices).
+ */
+export class ValidationError extends AppError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, "validation", options);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * The requested resource (catalog endpoint or device) doesn't exist.
+ */
+export class NotFoundError extends AppError {
+  constructor(message = "Device data not found", options?: ErrorOptions) {
+    super(message, "notFound", options);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Normalizes any thrown value into an AppError.
+ * Recognizes fetch failures (TypeError), aborts and JSON syntax errors.
+ * Only a timeout signal's reason counts as a timeout; any other abort was
+ * started by the caller and becomes a CancelledError.
+ *
+ * @param error - The value that was thrown
+ * @returns The same error if it's already an AppError, otherwise a wrapped one
+ *
+ * @example
+ * ```typescript
+ * toAppError(new TypeError("Failed to fetch")); // NetworkError
+ * toAppError(new DOMException("", "TimeoutError")); // TimeoutError
+ * toAppError(new DOMException("", "AbortError")); // CancelledError
+ * toAppError("oops"); // AppError with category "unknown"
+ * ```
+ */
+export const toAppError = (error: unknown): AppError => {
+  if (error instanceof AppError) return error;
+
+  if (error instanceof DOMException && error.name === "TimeoutError") {
+    return new TimeoutError(undefined, { cause: error });
+  }
+
+  if (error instanceof DOMException && error.name === "AbortError") {
+    return new CancelledError({ cause: error });
+  }
+
+  if (error instanceof TypeError) {
+    return new NetworkError(error.message, { cause: error });
+  }
+
+  if (error instanceof SyntaxError) {
+    return new ValidationError("Catalog response is not valid JSON", {
+      cause: error,
+    });
+  }
+
+  if (error instanceof Error) {
+    return new AppError(error.message, "unknown", { cause: error });
+  }
+
+  return new AppError("Failed to fetch devices", "unknown", { cause: error });
+};
@@ -0,0 +1,125 @@
+import type { Device } from "../types/device";
+
+/**
+ * A single field that differs between two versions of a device.
+ */
+export interface DeviceFieldChange {
+  path: string; // Dotted field path, e.g. "unifi.network.minimumFirmwareRequired"
+  before: unknown; // Value in the older version (undefined if the field is new)
+  after: unknown; // Value in the newer version (undefined if the field was removed)
+}
+
+/**
+ * A device present in both versions whose data changed.
+ */
+export interface ModifiedDevice {
+  id: string;
+  before: Device;
+  after: Device;
+  changes: DeviceFieldChange[];
+}
+
+/**
+ * Devices added, removed and modified between two catalog versions.
+ */
+export interface CatalogDiff {
+  added: Device[];
+  removed: Device[];
+  modified: ModifiedDevice[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+// Arrays and primitives are compared as whole values; order matters for arrays
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Walks two values in parallel and collects leaf-level differences
+function collectChanges(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: DeviceFieldChange[]
+): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) {
+      collectChanges(
+        before[key],
+        after[key],
+        path ? `${path}.${key}` : key,
+        changes
+      );
+    }
+    return;
+  }
+
+  if (!isSameValue(before, after)) {
+    changes.push({ path, before, after });
+  }
+}
+
+/**
+ * Lists the field-level differences between two versions of the same device.
+ * Nested objects are walked so changes are reported at the deepest path;
+ * arrays are compared as a whole.
+ *
+ * @param before - The device as it appeared in the older catalog
+ * @param after - The device as it appears in the newer catalog
+ * @returns Changed fields sorted by path, empty if the devices are identical
+ *
+ * @example
+ * ```typescript
+ * diffDevices(
+ *   { unifi: { network: { minimumFirmwareRequired: "6.0.0" } } },
+ *   { unifi: { network: { minimumFirmwareRequired: "6.5.0" } } }
+ * );
+ * // [{ path: "unifi.network.minimumFirmwareRequired", before: "6.0.0", after: "6.5.0" }]
+ * ```
+ */
+export const diffDevices = (
+  before: Device,
+  after: Device
+): DeviceFieldChange[] => {
+  const changes: DeviceFieldChange[] = [];
+  collectChanges(before, after, "", changes);
+  return changes;
+};
+
+/**
+ * Compares two catalog versions device by device, matching devices on `id`.
+ *
+ * @param from - Devices in the older catalog version
+ * @param to - Devices in the newer catalog version
+ * @returns Added, removed and modified devices
+ */
+export const diffCatalogs = (from: Device[], to: Device[]): CatalogDiff => {
+  const fromById = new Map(from.map((device) => [device.id, device]));
+  const toById = new Map(to.map((device) => [device.id, device]));
+
+  const added = to.filter((device) => !fromById.has(device.id));
+  const removed = from.filter((device) => !toById.has(device.id));
+  const modified: ModifiedDevice[] = [];
+
+  for (const after of to) {
+    const before = fromById.get(after.id);
+    if (!before) continue;
+
+    const changes = diffDevices(before, after);
+    if (changes.length > 0) {
+      modified.push({ id: after.id, before, after, changes });
+    }
+  }
+
+  return { added, removed, modified };
+};
+
+/**
+ * Formats a changed value for display in the changes view.
+ */
+export const formatChangeValue = (value: unknown): string => {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+};
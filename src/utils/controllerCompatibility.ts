@@ -0,0 +1,143 @@
+import type { Device } from "../types/device";
+
+/**
+ * A parsed semantic version. Missing minor/patch numbers count as 0, so
+ * "8.1" equals "8.1.0".
+ */
+export interface ParsedVersion {
+  numbers: number[]; // [major, minor, patch, ...]
+  prerelease: string[]; // "beta.2" -> ["beta", "2"]; empty for releases
+}
+
+/**
+ * Whether a device can be adopted by the controller version the user entered.
+ * "unknown" when there's no version to compare (none entered, or the device
+ * publishes no requirement).
+ */
+export type CompatibilityStatus = "compatible" | "incompatible" | "unknown";
+
+export interface DeviceCompatibility {
+  status: CompatibilityStatus;
+  requiredVersion?: string; // Minimum controller version, as published
+}
+
+// "v8.6.9", "8.6.9-beta.2+build.5"; build metadata is ignored like semver says
+const VERSION_PATTERN =
+  /^v?(\d+(?:\.\d+)*)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parses a version string such as "8.6.9", "v7.4" or "9.0.0-beta.2".
+ *
+ * @param version - Version text; surrounding whitespace is ignored
+ * @returns The parsed version, or null if it isn't one
+ */
+export const parseVersion = (version: string): ParsedVersion | null => {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) return null;
+  return {
+    numbers: match[1].split(".").map(Number),
+    prerelease: match[2] ? match[2].split(".") : [],
+  };
+};
+
+// Semver precedence of prerelease identifiers: numeric ones compare as
+// numbers and sort before alphanumeric ones, and a longer list wins a tie
+const comparePrerelease = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+    if (aNumeric && bNumeric) return Number(a[i]) - Number(b[i]);
+    if (aNumeric !== bNumeric) return aNumeric ? -1 : 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+  return a.length - b.length;
+};
+
+/**
+ * Compares two parsed versions by semver precedence: numbers first, then a
+ * prerelease sorts before its release ("9.0.0-beta" < "9.0.0").
+ *
+ * @returns A negative number if a is older, positive if newer, 0 if equal
+ */
+export const compareVersions = (a: ParsedVersion, b: ParsedVersion): number => {
+  for (let i = 0; i < Math.max(a.numbers.length, b.numbers.length); i++) {
+    const difference = (a.numbers[i] || 0) - (b.numbers[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return comparePrerelease(a.prerelease, b.prerelease);
+};
+
+/**
+ * A minimum version as published by the catalog, with its parsed form.
+ */
+export interface RequiredVersion {
+  text: string; // As published, trimmed
+  version: ParsedVersion;
+}
+
+/**
+ * Works out the lowest controller version that can adopt a device, from
+ * `minAdoptVersion.net`. A requirement that doesn't parse as a version is
+ * ignored.
+ *
+ * `unifi.network.minimumFirmwareRequired` is deliberately not considered: it
+ * is a device firmware version, a different version line from the Network
+ * application's (see getMinimumFirmwareVersion).
+ *
+ * @param device - Device to check
+ * @returns The requirement, or undefined if there is none
+ *
+ * @example
+ * ```typescript
+ * getRequiredControllerVersion(u6Pro)?.text; // "6.0.0"
+ * ```
+ */
+export const getRequiredControllerVersion = (
+  device: Device
+): RequiredVersion | undefined => {
+  const text = device.minAdoptVersion?.net?.trim();
+  const version = text ? parseVersion(text) : null;
+  return text && version ? { text, version } : undefined;
+};
+
+/**
+ * Reads the oldest device firmware the Network application supports for a
+ * device, for display next to the adoption requirement.
+ *
+ * @param device - Device to check
+ * @returns The firmware version as published, or undefined if there is none
+ */
+export const getMinimumFirmwareVersion = (device: Device): string | undefined =>
+  device.unifi?.network?.minimumFirmwareRequired?.trim() || undefined;
+
+/**
+ * Checks whether a controller version can adopt a device.
+ *
+ * @param device - Device to check
+ * @param controllerVersion - The user's Network application version, parsed
+ * @returns Status plus the required version when the device publishes one
+ *
+ * @example
+ * ```typescript
+ * getDeviceCompatibility(u6Pro, parseVersion("5.14.0"));
+ * // { status: "incompatible", requiredVersion: "6.0.0" }
+ * ```
+ */
+export const getDeviceCompatibility = (
+  device: Device,
+  controllerVersion: ParsedVersion | null
+): DeviceCompatibility => {
+  const required = getRequiredControllerVersion(device);
+  if (!required || !controllerVersion) {
+    return { status: "unknown", requiredVersion: required?.text };
+  }
+  return {
+    status:
+      compareVersions(controllerVersion, required.version) >= 0
+        ? "compatible"
+        : "incompatible",
+    requiredVersion: required.text,
+  };
+};
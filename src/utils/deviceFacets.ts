@@ -0,0 +1,407 @@
+import type { Device } from "../types/device";
+import {
+  getCertifiedRegions,
+  getRegulatoryRegion,
+  REGULATORY_REGIONS,
+} from "./regulatoryRegions";
+
+/**
+ * A device attribute that can be filtered on by picking values, such as
+ * product line or port count range.
+ */
+export interface FacetDefinition {
+  key: string; // URL parameter, e.g. "cap"
+  label: string; // Group heading, e.g. "Capabilities"
+  getValues: (device: Device) => string[]; // Values the device has; empty if it has none
+  formatValue?: (value: string) => string; // Display label for a value (defaults to the value)
+  order?: readonly string[]; // Fixed value order (ranges); otherwise compareValues or A-Z
+  compareValues?: (a: string, b: string) => number;
+}
+
+/**
+ * Selected values by facet key. Excluded values carry a "-" prefix, like
+ * negated search terms: `{ lines: ["-UniFi Protect", "-UISP airMAX"] }`.
+ * Devices must match at least one included value of every facet that has
+ * inclusions, and none of the excluded values.
+ */
+export type FacetSelection = Readonly<Record<string, readonly string[]>>;
+
+/**
+ * How a facet value filters: kept, removed, or not filtered on.
+ */
+export type FacetValueState = "include" | "exclude" | "neutral";
+
+/**
+ * One value of a facet with how many devices it would show.
+ */
+export interface FacetOption {
+  value: string; // As stored in the URL, without the exclusion prefix
+  label: string;
+  count: number; // Devices with this value that match the search and every other facet
+  state: FacetValueState;
+}
+
+/**
+ * A facet with its options, ready to render.
+ */
+export interface FacetGroup {
+  key: string;
+  label: string;
+  options: FacetOption[];
+}
+
+/**
+ * Facet key of the product line filter, which has its own dropdown.
+ */
+export const PRODUCT_LINE_FACET = "lines";
+
+/**
+ * Facet key of the regulatory region filter, which has its own selector.
+ */
+export const REGION_FACET = "region";
+
+const EXCLUDE_PREFIX = "-";
+
+/**
+ * Splits one facet's selected values into included and excluded values.
+ *
+ * @param values - The facet's selected values, exclusions prefixed with "-"
+ * @returns Both lists, without prefixes
+ */
+export const splitFacetValues = (values: readonly string[] = []) => ({
+  include: values.filter((value) => !value.startsWith(EXCLUDE_PREFIX)),
+  exclude: values
+    .filter((value) => value.startsWith(EXCLUDE_PREFIX))
+    .map((value) => value.slice(EXCLUDE_PREFIX.length)),
+});
+
+/**
+ * Looks up how a value filters within one facet's selection.
+ *
+ * @param values - The facet's selected values, exclusions prefixed with "-"
+ * @param value - Value to look up, without prefix
+ * @returns "include", "exclude" or "neutral"
+ */
+export const getFacetValueState = (
+  values: readonly string[],
+  value: string
+): FacetValueState => {
+  if (values.includes(value)) return "include";
+  if (values.includes(EXCLUDE_PREFIX + value)) return "exclude";
+  return "neutral";
+};
+
+/**
+ * Sets how a value filters within one facet's selection, replacing its
+ * previous state.
+ *
+ * @param values - The facet's selected values, exclusions prefixed with "-"
+ * @param value - Value to change, without prefix
+ * @param state - New state; "neutral" removes the value
+ * @returns A new list of selected values
+ *
+ * @example
+ * ```typescript
+ * setFacetValueState(["UniFi WiFi"], "UniFi Protect", "exclude");
+ * // ["UniFi WiFi", "-UniFi Protect"]
+ * ```
+ */
+export const setFacetValueState = (
+  values: readonly string[],
+  value: string,
+  state: FacetValueState
+): string[] => {
+  const rest = values.filter(
+    (entry) => entry !== value && entry !== EXCLUDE_PREFIX + value
+  );
+  if (state === "include") return [...rest, value];
+  if (state === "exclude") return [...rest, EXCLUDE_PREFIX + value];
+  return rest;
+};
+
+/**
+ * Wording for each state, e.g. for screen readers.
+ */
+export const FACET_VALUE_STATE_LABELS: Record<FacetValueState, string> = {
+  include: "included",
+  exclude: "excluded",
+  neutral: "not filtered",
+};
+
+/**
+ * Rebuilds a facet's selected values from its rendered options.
+ *
+ * @param group - A facet group from buildFacetGroups
+ * @returns The facet's selection, exclusions prefixed with "-"
+ */
+export const getFacetGroupValues = (group: FacetGroup): string[] =>
+  group.options.reduce<string[]>(
+    (values, option) => setFacetValueState(values, option.value, option.state),
+    []
+  );
+
+/**
+ * The state a tri-state control moves to when clicked:
+ * neutral → include → exclude → neutral.
+ */
+export const nextFacetValueState = (state: FacetValueState): FacetValueState =>
+  state === "neutral" ? "include" : state === "include" ? "exclude" : "neutral";
+
+// A named numeric range; max is inclusive and open-ended when absent
+interface NumericRange {
+  value: string;
+  label: string;
+  min: number;
+  max?: number;
+}
+
+const PORT_RANGES: NumericRange[] = [
+  { value: "1", label: "1 port", min: 1, max: 1 },
+  { value: "2-8", label: "2–8 ports", min: 2, max: 8 },
+  { value: "9-16", label: "9–16 ports", min: 9, max: 16 },
+  { value: "17-24", label: "17–24 ports", min: 17, max: 24 },
+  { value: "25-48", label: "25–48 ports", min: 25, max: 48 },
+  { value: "49+", label: "49+ ports", min: 49 },
+];
+
+const POE_BUDGET_RANGES: NumericRange[] = [
+  { value: "1-99", label: "Up to 99 W", min: 1, max: 99 },
+  { value: "100-249", label: "100–249 W", min: 100, max: 249 },
+  { value: "250-499", label: "250–499 W", min: 250, max: 499 },
+  { value: "500+", label: "500 W or more", min: 500 },
+];
+
+const rangeFacet = (
+  ranges: NumericRange[],
+  getNumber: (device: Device) => number | undefined
+): Pick<FacetDefinition, "getValues" | "formatValue" | "order"> => ({
+  getValues: (device) => {
+    const number = getNumber(device);
+    if (number === undefined) return [];
+    const range = ranges.find(
+      ({ min, max }) => number >= min && (max === undefined || number <= max)
+    );
+    return range ? [range.value] : [];
+  },
+  formatValue: (value) =>
+    ranges.find((range) => range.value === value)?.label || value,
+  order: ranges.map(({ value }) => value),
+});
+
+// Yes/no facet over an optional flag; a missing flag counts as "no"
+const flagFacet = (
+  isSet: (device: Device) => boolean
+): Pick<FacetDefinition, "getValues" | "formatValue" | "order"> => ({
+  getValues: (device) => [isSet(device) ? "yes" : "no"],
+  formatValue: (value) => (value === "yes" ? "Yes" : "No"),
+  order: ["yes", "no"],
+});
+
+/**
+ * Formats an Ethernet speed in Mbps, e.g. "10000" as "10 GbE".
+ */
+export const formatSpeed = (value: string): string => {
+  const mbps = Number(value);
+  return mbps >= 1000 ? `${mbps / 1000} GbE` : `${mbps} Mbps`;
+};
+
+/**
+ * Every facet, in panel order.
+ */
+export const DEVICE_FACETS: FacetDefinition[] = [
+  {
+    key: PRODUCT_LINE_FACET,
+    label: "Product line",
+    getValues: (device) => (device.line?.name ? [device.line.name] : []),
+  },
+  {
+    key: REGION_FACET,
+    label: "Region",
+    getValues: (device) => getCertifiedRegions(device).map(({ id }) => id),
+    formatValue: (value) => getRegulatoryRegion(value)?.label || value,
+    order: REGULATORY_REGIONS.map(({ id }) => id),
+  },
+  {
+    key: "cap",
+    label: "Capabilities",
+    getValues: (device) => device.unifi?.network?.deviceCapabilities || [],
+  },
+  {
+    key: "ports",
+    label: "Ports",
+    ...rangeFacet(
+      PORT_RANGES,
+      (device) => device.unifi?.network?.numberOfPorts
+    ),
+  },
+  {
+    key: "speed",
+    label: "Max Ethernet speed",
+    getValues: (device) => {
+      const speed = device.unifi?.network?.ethernetMaxSpeedMegabitsPerSecond;
+      return speed ? [String(speed)] : [];
+    },
+    formatValue: formatSpeed,
+    compareValues: (a, b) => Number(a) - Number(b),
+  },
+  {
+    key: "poe",
+    label: "PoE budget",
+    ...rangeFacet(
+      POE_BUDGET_RANGES,
+      (device) => device.unifi?.network?.power?.capacity
+    ),
+  },
+  {
+    key: "adopt",
+    label: "Adoptability",
+    getValues: (device) =>
+      device.unifi?.adoptability ? [device.unifi.adoptability] : [],
+  },
+  {
+    key: "indoor",
+    label: "Indoor only",
+    ...flagFacet((device) => device.compliance?.indoorOnly === true),
+  },
+  {
+    key: "ar",
+    label: "AR supported",
+    ...flagFacet((device) => device.isARSupported === true),
+  },
+  {
+    key: "btle",
+    label: "Bluetooth (BLE)",
+    ...flagFacet((device) => !!device.btle),
+  },
+];
+
+/**
+ * Reads the facet selection from URL parameters
+ * (`?cap=poe,wifi6&ports=17-24&lines=-UniFi Protect`).
+ *
+ * @param params - Current URL search params
+ * @returns Selected values by facet key; facets without a selection are left out
+ */
+export const parseFacetSelection = (
+  params: URLSearchParams
+): FacetSelection => {
+  const selection: Record<string, string[]> = {};
+  for (const { key } of DEVICE_FACETS) {
+    const values = params.get(key)?.split(",").filter(Boolean);
+    if (values?.length) selection[key] = values;
+  }
+  return selection;
+};
+
+/**
+ * Writes a facet selection into URL parameters, one comma-separated
+ * parameter per facet with a selection.
+ */
+export const writeFacetSelection = (
+  params: URLSearchParams,
+  selection: FacetSelection
+): void => {
+  for (const { key } of DEVICE_FACETS) {
+    const values = selection[key];
+    if (values?.length) params.set(key, values.join(","));
+  }
+};
+
+// Whether a device passes every facet with a selection, except the skipped one
+const matchesFacets = (
+  device: Device,
+  selection: FacetSelection,
+  skipKey?: string
+): boolean =>
+  DEVICE_FACETS.every(({ key, getValues }) => {
+    const selected = selection[key];
+    if (key === skipKey || !selected?.length) return true;
+    const { include, exclude } = splitFacetValues(selected);
+    const values = getValues(device);
+    return (
+      (include.length === 0 ||
+        values.some((value) => include.includes(value))) &&
+      !values.some((value) => exclude.includes(value))
+    );
+  });
+
+/**
+ * Keeps the devices that match the facet selection: at least one included
+ * value of each facet (OR within a facet, AND across facets) and no excluded
+ * value. Devices without a value for a facet pass its exclusions.
+ *
+ * @param devices - Devices to filter, e.g. search results
+ * @param selection - Selected values by facet key
+ * @returns Matching devices in their original order
+ */
+export const filterByFacets = (
+  devices: Device[],
+  selection: FacetSelection
+): Device[] => {
+  if (!Object.values(selection).some((values) => values.length > 0)) {
+    return devices;
+  }
+  return devices.filter((device) => matchesFacets(device, selection));
+};
+
+const sortValues = (facet: FacetDefinition, values: string[]): string[] => {
+  const { order, compareValues } = facet;
+  if (order) {
+    return [...values].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+  }
+  return [...values].sort(compareValues || ((a, b) => a.localeCompare(b)));
+};
+
+/**
+ * Builds every facet's options with live counts. Each count is the number of
+ * devices that would be shown with that value selected, given the search and
+ * the other facets' selections (the facet's own selection is ignored, so
+ * picking a second value never shows 0 for the first).
+ * Options come from the whole catalog so they don't vanish while filtering;
+ * values no longer in the catalog but still in use (e.g. from an old link)
+ * are kept so they can be cleared.
+ *
+ * @param catalog - Every device, for the list of options
+ * @param results - Devices matching the search query
+ * @param selection - Selected values by facet key
+ * @returns One group per facet, in DEVICE_FACETS order
+ *
+ * @example
+ * ```typescript
+ * buildFacetGroups(devices, searchResults, { cap: ["poe"] })
+ *   .find(({ key }) => key === "ports")?.options;
+ * // [{ value: "17-24", label: "17–24 ports", count: 12, state: "neutral" }, ...]
+ * ```
+ */
+export const buildFacetGroups = (
+  catalog: Device[],
+  results: Device[],
+  selection: FacetSelection
+): FacetGroup[] =>
+  DEVICE_FACETS.map((facet) => {
+    const selected = selection[facet.key] || [];
+    const { include, exclude } = splitFacetValues(selected);
+    const values = new Set<string>([...include, ...exclude]);
+    catalog.forEach((device) =>
+      facet.getValues(device).forEach((value) => values.add(value))
+    );
+
+    const counts = new Map<string, number>();
+    for (const device of results) {
+      if (!matchesFacets(device, selection, facet.key)) continue;
+      for (const value of new Set(facet.getValues(device))) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    }
+
+    return {
+      key: facet.key,
+      label: facet.label,
+      options: sortValues(facet, [...values]).map((value) => ({
+        value,
+        label: facet.formatValue?.(value) || value,
+        count: counts.get(value) || 0,
+        state: getFacetValueState(selected, value),
+      })),
+    };
+  });
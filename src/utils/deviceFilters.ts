@@ -1,108 +1,387 @@
 import type { Device } from "../types/device";
+import type { SearchSynonyms } from "../config/searchSynonyms";
 import React from "react";
+import { findClosestWord } from "./fuzzyMatch";
+import {
+  getAutocompleteMatches,
+  getAutocompleteMatchType,
+  getFieldValueMatches,
+  getIndexVocabulary,
+  lookupWord,
+  searchIndex,
+  type FieldMatch,
+  type SearchIndex,
+} from "./searchIndex";
+import {
+  collectFreeTextTerms,
+  evaluateSearchQuery,
+  parseSearchQuery,
+} from "./searchQuery";
+import { expandSearchSynonyms } from "./searchSynonyms";
+
+/**
+ * Sections of the autocomplete dropdown, in display order.
+ * Choosing a device opens it, a line applies the `lines` filter, a SKU
+ * searches for it and a capability adds a `cap:` term to the query.
+ */
+export type AutocompleteKind = "device" | "line" | "sku" | "capability";
 
 /**
  * What autocomplete suggestions look like.
  */
 export interface AutocompleteSuggestion {
-  text: string; // The text to show in the suggestion
-  shortname: string; // The short name for the device (like "UDM" or "UAP")
+  kind: AutocompleteKind;
+  text: string; // The text to show in the suggestion (product name, line, SKU or capability)
+  detail: string; // Secondary text: short name (like "UDM" or "UAP"), product name or device count
+  device?: Device; // The device to open, for "device" suggestions
+}
+
+/**
+ * Options for generateAutocompleteSuggestions.
+ */
+export interface AutocompleteOptions {
+  scope?: ReadonlySet<Device>; // Only suggest these devices and SKUs (e.g. the ones on screen)
+  synonyms?: SearchSynonyms; // Also suggest devices found through synonyms of the typed words
+  selectedLines?: readonly string[]; // Product lines already filtered on, not suggested again
 }
 
 // Checks if a device matches what the user is searching for.
+// The query uses the search syntax described in parseSearchQuery
+// (free text, field:value, numeric comparisons, OR groups and negation).
 export function matchesSearchQuery(device: Device, query: string): boolean {
-  const q = query.trim().toLowerCase();
-  if (!q) return true;
-
-  const searchableFields = [
-    device.product?.name || "",
-    device.product?.abbrev || "",
-    device.line?.name || "",
-    device.sku || "",
-    device.sysid || device.id || "",
-    ...(device.shortnames || []),
-  ]
-    .join(" ")
-    .toLowerCase();
-
-  return searchableFields.includes(q);
+  return evaluateSearchQuery(device, parseSearchQuery(query).root);
 }
 
 /**
- * Filters devices by what the user is searching for.
+ * Filters devices by what the user is searching for, keeping catalog order.
+ * Parses the query once; invalid parts of it are ignored. Words that match
+ * nothing as typed are matched with typos allowed, and words with synonyms
+ * also find what their synonyms find.
+ *
+ * @param index - Search index of the catalog (see buildSearchIndex)
+ * @param query - Search query
+ * @param synonyms - Synonym dictionary to expand the query with (optional)
+ * @returns Matching devices in catalog order
  */
-export const filterDevices = (devices: Device[], query: string): Device[] => {
-  if (!devices?.length) return [];
-  return devices.filter((device) => matchesSearchQuery(device, query));
+export const filterDevices = (
+  index: SearchIndex,
+  query: string,
+  synonyms: SearchSynonyms = {}
+): Device[] => {
+  if (!index.devices.length) return [];
+  const root = expandSearchSynonyms(parseSearchQuery(query).root, synonyms);
+  if (!root) return index.devices;
+  return searchIndex(index, root).map(({ device }) => device);
 };
 
-// Creates autocomplete suggestions from device data based on what the user is typing.
-// Looks through device names, abbreviations, lines, SKUs, IDs, and short names.
-export const generateAutocompleteSuggestions = (
-  devices: Device[],
+/**
+ * Search results in relevance order.
+ */
+export interface RankedDevices {
+  devices: Device[];
+  // By device id, for devices found through a field their row doesn't show
+  // (FCC ID, GUID, legacy name, ...), so the row can say what matched
+  matchedFields: Map<string, FieldMatch>;
+}
+
+/**
+ * Like filterDevices, but orders the results by relevance: exact SKU and
+ * abbreviation hits first, then names, short names, identifiers and product
+ * lines. Devices with equal scores keep their catalog order.
+ * A word with synonyms scores by whichever of it and its synonyms matches best.
+ *
+ * @example
+ * ```typescript
+ * const index = buildSearchIndex(devices);
+ * rankDevices(index, "flexmini").devices; // [USW-Flex-Mini, ...]
+ * rankDevices(index, "enterprize 24").devices; // Enterprise 24 models, typo and all
+ * rankDevices(index, "SWX-U6PRO").matchedFields; // U6-Pro id -> FCC ID match
+ * rankDevices(index, "camera", DEFAULT_SEARCH_SYNONYMS).devices; // UniFi Protect devices
+ * ```
+ */
+export const rankDevices = (
+  index: SearchIndex,
+  query: string,
+  synonyms: SearchSynonyms = {}
+): RankedDevices => {
+  const matchedFields = new Map<string, FieldMatch>();
+  const root = expandSearchSynonyms(parseSearchQuery(query).root, synonyms);
+  if (!root) return { devices: index.devices, matchedFields };
+
+  const ranked = searchIndex(index, root).sort(
+    (a, b) => b.score - a.score || a.position - b.position
+  );
+  for (const { device, match } of ranked) {
+    if (match?.identifier) matchedFields.set(device.id, match);
+  }
+  return { devices: ranked.map(({ device }) => device), matchedFields };
+};
+
+/**
+ * Suggests a corrected query for the "did you mean" prompt when a search
+ * finds nothing. Each free text word that matches no device is replaced by
+ * the closest word in the catalog.
+ *
+ * @param index - Search index to draw known words from
+ * @param query - The query that found nothing
+ * @returns The corrected query, or null if there's nothing to suggest
+ *
+ * @example
+ * ```typescript
+ * suggestSearchCorrection(index, "enterprse swich"); // "enterprise switch"
+ * ```
+ */
+export const suggestSearchCorrection = (
+  index: SearchIndex,
   query: string
+): string | null => {
+  const { root } = parseSearchQuery(query);
+  const terms = collectFreeTextTerms(root);
+  if (!index.devices.length || terms.length === 0) return null;
+
+  const vocabulary = getIndexVocabulary(index);
+  let corrected = query;
+
+  for (const term of terms) {
+    if (lookupWord(index, term, false).size > 0) continue;
+
+    const replacement = findClosestWord(term, vocabulary);
+    if (!replacement) continue;
+
+    // Replace the word where it stands alone, leaving the rest of the query as typed
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    corrected = corrected.replace(
+      new RegExp(`(^|[\\s(|])${escaped}(?=$|[\\s)|])`, "i"),
+      `$1${replacement}`
+    );
+  }
+
+  return corrected !== query ? corrected : null;
+};
+
+// Suggestions per section, so one section can't crowd out the rest
+const MAX_SUGGESTIONS: Record<AutocompleteKind, number> = {
+  device: 6,
+  line: 3,
+  sku: 4,
+  capability: 3,
+};
+
+// The word being typed at the end of the query, e.g. "po" in "switch po".
+// Field terms, negations and OR are left alone.
+const TYPED_TERM_PATTERN = /(^|[\s(|])([^\s()|]+)$/;
+
+/**
+ * Finds the word being typed at the end of a query, which product line and
+ * capability suggestions complete.
+ *
+ * @param query - The search bar text
+ * @returns The word, or null if the query ends in a field term, a negation or a space
+ */
+export const getTypedTerm = (query: string): string | null => {
+  const term = TYPED_TERM_PATTERN.exec(query)?.[2];
+  if (!term || /[:=<>"*]|^-/.test(term) || /^(or|not)$/i.test(term)) {
+    return null;
+  }
+  return term;
+};
+
+/**
+ * Replaces the word being typed at the end of a query (see getTypedTerm),
+ * keeping the rest of the query as typed. If no word is being typed, the
+ * replacement is appended.
+ *
+ * @param query - The search bar text
+ * @param replacement - What to put in its place; empty to drop the word
+ * @returns The new query
+ *
+ * @example
+ * ```typescript
+ * replaceTypedTerm("switch po", "cap:poe"); // "switch cap:poe"
+ * replaceTypedTerm("protect", ""); // ""
+ * ```
+ */
+export const replaceTypedTerm = (query: string, replacement: string): string =>
+  (getTypedTerm(query) === null
+    ? `${query.trim()} ${replacement}`
+    : query.replace(
+        TYPED_TERM_PATTERN,
+        (_, before: string) => before + replacement
+      )
+  ).trim();
+
+const pluralizeDevices = (count: number) =>
+  `${count} device${count !== 1 ? "s" : ""}`;
+
+// Capability tags with their device counts, worked out once per index
+const capabilityCounts = new WeakMap<SearchIndex, Map<string, number>>();
+
+const getCapabilityCounts = (index: SearchIndex): Map<string, number> => {
+  let counts = capabilityCounts.get(index);
+  if (!counts) {
+    counts = new Map();
+    for (const device of index.devices) {
+      for (const capability of new Set(
+        device.unifi?.network?.deviceCapabilities || []
+      )) {
+        counts.set(capability, (counts.get(capability) || 0) + 1);
+      }
+    }
+    capabilityCounts.set(index, counts);
+  }
+  return counts;
+};
+
+// Devices whose name, abbreviation, line, SKU, IDs or short names match the query
+const suggestDevices = (
+  index: SearchIndex,
+  q: string,
+  { scope, synonyms = {} }: AutocompleteOptions
 ): AutocompleteSuggestion[] => {
-  const q = query.trim().toLowerCase();
-  if (!q || q.length < 2) return [];
+  const autocompleteMatches = getAutocompleteMatches(index, q);
+  const { root } = parseSearchQuery(q);
+  const expanded = expandSearchSynonyms(root, synonyms);
+  if (expanded !== root) {
+    for (const { position } of searchIndex(index, expanded)) {
+      const current = autocompleteMatches.get(position);
+      if (!current || current === "contains") {
+        autocompleteMatches.set(position, "prefix");
+      }
+    }
+  }
 
   const exactMatches: AutocompleteSuggestion[] = [];
   const prefixMatches: AutocompleteSuggestion[] = [];
   const containsMatches: AutocompleteSuggestion[] = [];
   const seen = new Set<string>();
 
-  devices.forEach((device) => {
-    const name = device.product?.name || "";
-    if (!name) return;
+  // Walk matches in catalog order so ties keep the order devices are listed in
+  const matches = [...autocompleteMatches].sort(([a], [b]) => a - b);
+
+  for (const [position, matchType] of matches) {
+    const device = index.devices[position];
+    if (scope && !scope.has(device)) continue;
 
+    const name = device.product?.name || "";
     const lowerName = name.toLowerCase();
-    const abbrev = device.product?.abbrev?.toLowerCase() || "";
-    const line = device.line?.name?.toLowerCase() || "";
-    const sku = device.sku?.toLowerCase() || "";
-    const id = (device.sysid || device.id || "").toLowerCase();
-    const shortnames = (device.shortnames || []).join(" ").toLowerCase();
-
-    const fields = [lowerName, abbrev, line, sku, id, shortnames];
-
-    let bestMatchType: "exact" | "prefix" | "contains" | null = null;
-    let hasExact = false;
-
-    for (const field of fields) {
-      if (!field) continue;
-      if (field === q) {
-        bestMatchType = "exact";
-        hasExact = true;
-        break;
-      } else if (field.startsWith(q) && !hasExact) {
-        bestMatchType = "prefix";
-      } else if (field.includes(q) && !hasExact && bestMatchType !== "prefix") {
-        bestMatchType = "contains";
-      }
-    }
+    if (!name || seen.has(lowerName)) continue;
+    seen.add(lowerName);
 
-    if (bestMatchType && !seen.has(lowerName)) {
-      seen.add(lowerName);
-      const suggestion: AutocompleteSuggestion = {
-        text: name,
-        shortname: device.shortnames?.[0] || device.product?.abbrev || "",
-      };
-      if (bestMatchType === "exact") {
-        exactMatches.push(suggestion);
-      } else if (bestMatchType === "prefix") {
-        prefixMatches.push(suggestion);
-      } else {
-        containsMatches.push(suggestion);
-      }
+    const suggestion: AutocompleteSuggestion = {
+      kind: "device",
+      text: name,
+      detail: device.shortnames?.[0] || device.product?.abbrev || "",
+      device,
+    };
+    if (matchType === "exact") {
+      exactMatches.push(suggestion);
+    } else if (matchType === "prefix") {
+      prefixMatches.push(suggestion);
+    } else {
+      containsMatches.push(suggestion);
     }
-  });
+  }
 
   // Combine in priority order
-  const allSuggestions = [
-    ...exactMatches,
-    ...prefixMatches,
-    ...containsMatches,
-  ];
+  return [...exactMatches, ...prefixMatches, ...containsMatches];
+};
+
+const suggestSkus = (
+  index: SearchIndex,
+  q: string,
+  { scope }: AutocompleteOptions
+): AutocompleteSuggestion[] =>
+  getFieldValueMatches(index, "sku", q).flatMap(({ value, devices }) => {
+    const device = devices
+      .map((position) => index.devices[position])
+      .find((candidate) => !scope || scope.has(candidate));
+    return device
+      ? [
+          {
+            kind: "sku" as const,
+            text: value,
+            detail: device.product?.name || "",
+          },
+        ]
+      : [];
+  });
+
+const suggestLines = (
+  index: SearchIndex,
+  term: string,
+  { selectedLines = [] }: AutocompleteOptions
+): AutocompleteSuggestion[] =>
+  getFieldValueMatches(index, "line", term)
+    .filter(({ value }) => !selectedLines.includes(value))
+    .map(({ value, devices }) => ({
+      kind: "line",
+      text: value,
+      detail: pluralizeDevices(devices.length),
+    }));
+
+const suggestCapabilities = (
+  index: SearchIndex,
+  term: string
+): AutocompleteSuggestion[] =>
+  [...getCapabilityCounts(index)]
+    .map(([capability, count]) => ({
+      capability,
+      count,
+      type: getAutocompleteMatchType(capability.toLowerCase(), term),
+    }))
+    .filter(({ type }) => type !== null)
+    // Exact before prefix before contains, then the most common first, then A-Z
+    .sort(
+      (a, b) =>
+        Number(b.type === "exact") - Number(a.type === "exact") ||
+        Number(b.type === "prefix") - Number(a.type === "prefix") ||
+        b.count - a.count ||
+        a.capability.localeCompare(b.capability)
+    )
+    .map(({ capability, count }) => ({
+      kind: "capability",
+      text: capability,
+      detail: pluralizeDevices(count),
+    }));
 
-  return allSuggestions.slice(0, 8);
+/**
+ * Creates autocomplete suggestions from the search index based on what the
+ * user is typing, grouped by section (see AutocompleteKind): devices whose
+ * names, abbreviations, lines, SKUs, IDs or short names match the query,
+ * SKUs that match it, and product lines and capabilities that match the
+ * word being typed.
+ *
+ * @param index - Search index of the catalog
+ * @param query - The search bar text
+ * @param options - Scope, synonyms and lines already filtered on
+ * @returns Suggestions, section by section in display order
+ *
+ * @example
+ * ```typescript
+ * generateAutocompleteSuggestions(index, "switch po");
+ * // [..., { kind: "capability", text: "poe", detail: "12 devices" }]
+ * ```
+ */
+export const generateAutocompleteSuggestions = (
+  index: SearchIndex,
+  query: string,
+  options: AutocompleteOptions = {}
+): AutocompleteSuggestion[] => {
+  const q = query.trim().toLowerCase();
+  if (!q || q.length < 2) return [];
+
+  const term = getTypedTerm(query)?.toLowerCase();
+  const sections: Record<AutocompleteKind, AutocompleteSuggestion[]> = {
+    device: suggestDevices(index, q, options),
+    line: term && term.length >= 2 ? suggestLines(index, term, options) : [],
+    sku: suggestSkus(index, q, options),
+    capability:
+      term && term.length >= 2 ? suggestCapabilities(index, term) : [],
+  };
+
+  return (Object.keys(MAX_SUGGESTIONS) as AutocompleteKind[]).flatMap((kind) =>
+    sections[kind].slice(0, MAX_SUGGESTIONS[kind])
+  );
 };
 
 // Creates a React element that highlights the matching text with underlines.
@@ -0,0 +1,70 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { loadFixtureDevices } from "../test/fixtures";
+import type { Device } from "../types/device";
+import { identifyDevice, parseIdentifier } from "./deviceIdentification";
+
+describe("parseIdentifier", () => {
+  it("reads ambiguous digits as hex and decimal system IDs", () => {
+    expect(parseIdentifier("1234")).toEqual([
+      { kind: "systemId", value: 0x1234, base: 16 },
+      { kind: "systemId", value: 1234, base: 10 },
+    ]);
+  });
+
+  it("splits a triplet into its parts", () => {
+    expect(parseIdentifier("U6-Pro/UAP6MP/a650")).toEqual([
+      { kind: "triplet", k1: "U6-Pro", k2: "UAP6MP", k3: "a650" },
+    ]);
+  });
+
+  it("reads a separated list of system IDs as each ID", () => {
+    expect(parseIdentifier("0xa650, 0xed40")).toEqual([
+      { kind: "systemId", value: 0xa650, base: 16 },
+      { kind: "systemId", value: 0xed40, base: 16 },
+      { kind: "triplet", k1: "0xa650", k2: "0xed40" },
+    ]);
+  });
+});
+
+describe("identifyDevice", () => {
+  let devices: Device[];
+  const identify = (input: string) => {
+    const { match, candidates } = identifyDevice(devices, input);
+    return {
+      match: match?.sku ?? null,
+      candidates: candidates.map(({ device, score }) => [device.sku, score]),
+    };
+  };
+
+  beforeAll(async () => {
+    devices = await loadFixtureDevices();
+  });
+
+  it.each(["0xa650", "a650", "42576", "UAP6MP", "U6-Pro/UAP6MP/a650"])(
+    "identifies %s as the U6-Pro",
+    (input) => {
+      expect(identify(input).match).toBe("U6-Pro");
+    }
+  );
+
+  it("lists every device of a pasted ID list without picking one", () => {
+    expect(identify("0xa650, 0xed40")).toEqual({
+      match: null,
+      candidates: [
+        ["U6-Pro", 100],
+        ["USW-24-PoE", 100],
+      ],
+    });
+  });
+
+  it("offers a near miss for a misread legacy name", () => {
+    expect(identify("UAP6MQ")).toEqual({
+      match: null,
+      candidates: [["U6-Pro", 40]],
+    });
+  });
+
+  it("finds nothing for an unknown identifier", () => {
+    expect(identify("zzzz")).toEqual({ match: null, candidates: [] });
+  });
+});
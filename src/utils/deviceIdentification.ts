@@ -0,0 +1,337 @@
+import type { Device } from "../types/device";
+import { editDistance } from "./fuzzyMatch";
+
+/**
+ * One way of reading a pasted identifier. Ambiguous input (e.g. "1234",
+ * which is valid hex and decimal) yields several interpretations.
+ */
+export type IdentifierInterpretation =
+  | { kind: "systemId"; value: number; base: 16 | 10 }
+  | { kind: "guid"; value: string } // Lowercase, dashed
+  | { kind: "triplet"; k1?: string; k2?: string; k3?: string }
+  | { kind: "legacyName"; value: string }; // Uppercase, letters and digits only
+
+/**
+ * A device that matches a pasted identifier, with why it matched.
+ */
+export interface IdentificationCandidate {
+  device: Device;
+  score: number; // 100 is a certain match; below 50 is a near miss
+  reasons: string[]; // e.g. ["sysid a650", "triplet k2 UAP6MP"]
+}
+
+/**
+ * Result of identifying a device from a pasted identifier.
+ */
+export interface IdentificationResult {
+  interpretations: IdentifierInterpretation[]; // How the input was read
+  match: Device | null; // Set when one device is a confident, unambiguous match
+  candidates: IdentificationCandidate[]; // Best first, including match
+}
+
+// Scores for each kind of evidence
+const SCORES = {
+  exact: 100, // Hex system ID, GUID or a full triplet
+  decimalSystemId: 90, // All-digit input read as decimal; hex is more common
+  legacyName: 95, // unifi/uisp nameLegacy
+  alternateName: 85, // Shortname, triplet k2, SKU or abbreviation
+  partialTriplet: 30, // Per matching part of a triplet that doesn't fully match
+  nearLegacyName: 40, // Legacy name one edit away (a misread character)
+} as const;
+
+// Scores at or above this count as a confident match
+const CONFIDENT_SCORE = 90;
+const MAX_CANDIDATES = 10;
+
+const GUID_PATTERN =
+  /^\{?([0-9a-f]{8})-?([0-9a-f]{4})-?([0-9a-f]{4})-?([0-9a-f]{4})-?([0-9a-f]{12})\}?$/i;
+const HEX_PATTERN = /^(0x)?([0-9a-f]{1,8})$/i;
+const TRIPLET_KEY_PATTERN = /\bk([123])\s*[:=]\s*([^\s,;/|]+)/gi;
+const SEPARATOR_PATTERN = /\s*[/,;|]\s*/;
+
+const normalizeName = (value: string): string =>
+  value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+const parseHex = (value: string | undefined): number | null => {
+  if (!value || !HEX_PATTERN.test(value)) return null;
+  return parseInt(value.replace(/^0x/i, ""), 16);
+};
+
+const formatHex = (value: number): string => `0x${value.toString(16)}`;
+
+// "k1=U6-Pro k2=UAP6MP k3=a650", or three values separated by / , ; or |
+const parseTriplet = (
+  input: string
+): Extract<IdentifierInterpretation, { kind: "triplet" }> | null => {
+  const keyed = [...input.matchAll(TRIPLET_KEY_PATTERN)];
+  if (keyed.length > 0) {
+    const triplet: Record<string, string> = {};
+    keyed.forEach(([, key, value]) => {
+      triplet[`k${key}`] = value;
+    });
+    return { kind: "triplet", ...triplet };
+  }
+
+  const parts = input.split(SEPARATOR_PATTERN);
+  if (parts.length < 2 || parts.length > 3) return null;
+  const [k1, k2, k3] = parts.map((part) => part || undefined);
+  return { kind: "triplet", k1, k2, k3 };
+};
+
+/**
+ * Reads a pasted identifier every way it could plausibly be meant.
+ * GUIDs and triplets are unambiguous; a short hex or numeric string may be a
+ * system ID and a legacy model code at the same time.
+ *
+ * @param input - What the user pasted
+ * @returns Interpretations, most specific first; empty for blank input
+ *
+ * @example
+ * ```typescript
+ * parseIdentifier("0xA650"); // [{ kind: "systemId", value: 42576, base: 16 }]
+ * parseIdentifier("U7PG2"); // [{ kind: "legacyName", value: "U7PG2" }]
+ * parseIdentifier("k2=UAP6MP k3=a650"); // [{ kind: "triplet", k2: "UAP6MP", k3: "a650" }]
+ * parseIdentifier("0xa650, 0xed40"); // Both system IDs, then the triplet reading
+ * ```
+ */
+export const parseIdentifier = (input: string): IdentifierInterpretation[] => {
+  const value = input.trim().replace(/^["']|["']$/g, "");
+  if (!value) return [];
+
+  const guid = GUID_PATTERN.exec(value);
+  if (guid) {
+    return [{ kind: "guid", value: guid.slice(1).join("-").toLowerCase() }];
+  }
+
+  // A pasted list of system IDs or GUIDs ("0xa650, 0xa651") is read value by
+  // value, with the triplet reading kept as a fallback
+  const parts = value.split(SEPARATOR_PATTERN).filter(Boolean);
+  const triplet = parseTriplet(value);
+  if (
+    SEPARATOR_PATTERN.test(value) &&
+    parts.length > 0 &&
+    parts.every((part) => GUID_PATTERN.test(part) || HEX_PATTERN.test(part))
+  ) {
+    return [...parts.flatMap(parseIdentifier), ...(triplet ? [triplet] : [])];
+  }
+  if (triplet) return [triplet];
+
+  const interpretations: IdentifierInterpretation[] = [];
+  const hex = HEX_PATTERN.exec(value);
+  if (hex) {
+    interpretations.push({
+      kind: "systemId",
+      value: parseInt(hex[2], 16),
+      base: 16,
+    });
+    // Controllers show system IDs in hex, but some tools print them in decimal
+    if (!hex[1] && /^\d+$/.test(value)) {
+      interpretations.push({
+        kind: "systemId",
+        value: parseInt(value, 10),
+        base: 10,
+      });
+    }
+  }
+
+  if (!hex?.[1] && /[a-z]/i.test(value)) {
+    interpretations.push({ kind: "legacyName", value: normalizeName(value) });
+  }
+
+  return interpretations;
+};
+
+/**
+ * Describes an interpretation for display, e.g. "hex system ID 0xa650".
+ */
+export const describeInterpretation = (
+  interpretation: IdentifierInterpretation
+): string => {
+  switch (interpretation.kind) {
+    case "systemId":
+      return interpretation.base === 16
+        ? `hex system ID ${formatHex(interpretation.value)}`
+        : `decimal system ID ${interpretation.value} (${formatHex(interpretation.value)})`;
+    case "guid":
+      return `GUID ${interpretation.value}`;
+    case "triplet":
+      return `triplet ${(["k1", "k2", "k3"] as const)
+        .filter((key) => interpretation[key])
+        .map((key) => `${key}=${interpretation[key]}`)
+        .join(" ")}`;
+    case "legacyName":
+      return `legacy name ${interpretation.value}`;
+  }
+};
+
+// Evidence one interpretation gives for one device
+interface Evidence {
+  score: number;
+  reason: string;
+}
+
+const matchSystemId = (
+  device: Device,
+  { value, base }: Extract<IdentifierInterpretation, { kind: "systemId" }>
+): Evidence | null => {
+  const ids = [
+    device.sysid,
+    ...(device.sysids || []),
+    device.unifi?.network?.systemIdHexadecimal,
+  ];
+  const hit = ids.find((id) => parseHex(id) === value);
+  if (!hit) return null;
+  return {
+    score: base === 16 ? SCORES.exact : SCORES.decimalSystemId,
+    reason: `sysid ${hit}`,
+  };
+};
+
+const matchGuid = (device: Device, guid: string): Evidence | null => {
+  const hit = [device.id, ...(device.guids || [])].find(
+    (id) => id?.toLowerCase() === guid
+  );
+  return hit ? { score: SCORES.exact, reason: `GUID ${hit}` } : null;
+};
+
+const matchTriplet = (
+  device: Device,
+  triplet: Extract<IdentifierInterpretation, { kind: "triplet" }>
+): Evidence | null => {
+  const keys = (["k1", "k2", "k3"] as const).filter((key) => triplet[key]);
+  let best: Evidence | null = null;
+
+  for (const entry of device.triplets || []) {
+    const matched = keys.filter(
+      (key) =>
+        entry[key] && normalizeName(entry[key]) === normalizeName(triplet[key]!)
+    );
+    if (matched.length === 0) continue;
+
+    // One part on its own (say k2) is as telling as any other alternate name
+    const score =
+      matched.length < keys.length
+        ? matched.length * SCORES.partialTriplet
+        : keys.length >= 2
+          ? SCORES.exact
+          : SCORES.alternateName;
+    if (!best || score > best.score) {
+      best = {
+        score,
+        reason: `triplet ${matched.map((key) => `${key} ${entry[key]}`).join(", ")}`,
+      };
+    }
+  }
+
+  return best;
+};
+
+const matchLegacyName = (device: Device, name: string): Evidence | null => {
+  const legacyNames = [
+    ...(device.unifi?.nameLegacy || []),
+    ...(device.uisp?.nameLegacy || []),
+  ];
+  const legacy = legacyNames.find((value) => normalizeName(value) === name);
+  if (legacy) {
+    return { score: SCORES.legacyName, reason: `legacy name ${legacy}` };
+  }
+
+  const alternates = [
+    ...(device.shortnames || []),
+    ...(device.triplets || []).map((triplet) => triplet.k2),
+    device.sku,
+    device.product?.abbrev,
+  ];
+  const alternate = alternates.find(
+    (value) => value && normalizeName(value) === name
+  );
+  if (alternate) {
+    return {
+      score: SCORES.alternateName,
+      reason: `also known as ${alternate}`,
+    };
+  }
+
+  // Hand-copied codes often have one character misread (0/O, 1/I)
+  if (name.length >= 4) {
+    const near = legacyNames.find(
+      (value) => editDistance(name, normalizeName(value), 1) <= 1
+    );
+    if (near) {
+      return {
+        score: SCORES.nearLegacyName,
+        reason: `close to legacy name ${near}`,
+      };
+    }
+  }
+
+  return null;
+};
+
+const matchInterpretation = (
+  device: Device,
+  interpretation: IdentifierInterpretation
+): Evidence | null => {
+  switch (interpretation.kind) {
+    case "systemId":
+      return matchSystemId(device, interpretation);
+    case "guid":
+      return matchGuid(device, interpretation.value);
+    case "triplet":
+      return matchTriplet(device, interpretation);
+    case "legacyName":
+      return matchLegacyName(device, interpretation.value);
+  }
+};
+
+/**
+ * Resolves a pasted system ID (hex or decimal), triplet, GUID or legacy
+ * model code to the device it identifies, using the DeviceCore
+ * identification fields plus UniFi/UISP legacy names.
+ *
+ * @param devices - The catalog to search
+ * @param input - What the user pasted, e.g. "0xa650", "U7PG2" or "k1=U6-Pro k2=UAP6MP"
+ * @returns How the input was read, the device if exactly one is a confident
+ * match, and every candidate ranked best first
+ *
+ * @example
+ * ```typescript
+ * const { match, candidates } = identifyDevice(devices, "UAP6MP");
+ * // match -> U6-Pro; candidates[0].reasons -> ["legacy name UAP6MP"]
+ * ```
+ */
+export const identifyDevice = (
+  devices: Device[],
+  input: string
+): IdentificationResult => {
+  const interpretations = parseIdentifier(input);
+  const candidates: IdentificationCandidate[] = [];
+
+  devices.forEach((device) => {
+    const evidence = interpretations
+      .map((interpretation) => matchInterpretation(device, interpretation))
+      .filter((entry): entry is Evidence => entry !== null);
+    if (evidence.length === 0) return;
+
+    candidates.push({
+      device,
+      score: Math.max(...evidence.map((entry) => entry.score)),
+      reasons: evidence.map((entry) => entry.reason),
+    });
+  });
+
+  // Stable sort keeps catalog order among equal scores
+  candidates.sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = candidates;
+  const match =
+    best && best.score >= CONFIDENT_SCORE && best.score > (runnerUp?.score ?? 0)
+      ? best.device
+      : null;
+
+  return {
+    interpretations,
+    match,
+    candidates: candidates.slice(0, MAX_CANDIDATES),
+  };
+};
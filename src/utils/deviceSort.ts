@@ -0,0 +1,151 @@
+import type { Device } from "../types/device";
+
+/**
+ * One sort key; a list of them sorts by the first, then breaks ties with the
+ * next. Shaped like TanStack Table's SortingState so the list view can use
+ * it directly.
+ */
+export interface DeviceSortKey {
+  id: string; // A DEVICE_SORT_FIELDS id, also the list column id
+  desc: boolean;
+}
+
+export type DeviceSort = DeviceSortKey[];
+
+/**
+ * A sortable device attribute.
+ */
+export interface DeviceSortField {
+  id: string;
+  label: string;
+  kind: "text" | "natural" | "numeric"; // natural: "USW-8" before "USW-16"
+  getValue: (device: Device) => string | number | undefined;
+}
+
+/**
+ * Every sortable attribute, by column id.
+ */
+export const DEVICE_SORT_FIELDS: DeviceSortField[] = [
+  {
+    id: "line",
+    label: "Product Line",
+    kind: "text",
+    getValue: (device) => device.line?.name,
+  },
+  {
+    id: "name",
+    label: "Name",
+    kind: "natural",
+    getValue: (device) => device.product?.name,
+  },
+  {
+    id: "sku",
+    label: "SKU",
+    kind: "natural",
+    getValue: (device) => device.sku,
+  },
+  {
+    id: "ports",
+    label: "Ports",
+    kind: "numeric",
+    getValue: (device) => device.unifi?.network?.numberOfPorts,
+  },
+  {
+    id: "power",
+    label: "PoE Budget",
+    kind: "numeric",
+    getValue: (device) => device.unifi?.network?.power?.capacity,
+  },
+  {
+    id: "speed",
+    label: "Max Speed",
+    kind: "numeric",
+    getValue: (device) =>
+      device.unifi?.network?.ethernetMaxSpeedMegabitsPerSecond,
+  },
+];
+
+const DESC_PREFIX = "-";
+
+// Numbers inside text compare by value, case is ignored
+const naturalCollator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+const textCollator = new Intl.Collator(undefined, { sensitivity: "base" });
+
+/**
+ * Reads the sort from its URL parameter (`?sort=ports,-power`, where "-"
+ * means descending). Unknown and repeated columns are dropped.
+ *
+ * @param param - The `sort` parameter, or null when absent
+ * @returns Sort keys in priority order; empty for the default order
+ */
+export const parseDeviceSort = (param: string | null): DeviceSort => {
+  const sort: DeviceSort = [];
+  for (const entry of param?.split(",") || []) {
+    const desc = entry.startsWith(DESC_PREFIX);
+    const id = desc ? entry.slice(DESC_PREFIX.length) : entry;
+    const known = DEVICE_SORT_FIELDS.some((field) => field.id === id);
+    if (known && !sort.some((key) => key.id === id)) sort.push({ id, desc });
+  }
+  return sort;
+};
+
+/**
+ * Writes a sort as its URL parameter value.
+ *
+ * @returns e.g. "ports,-power"; empty for the default order
+ */
+export const formatDeviceSort = (sort: DeviceSort): string =>
+  sort.map(({ id, desc }) => (desc ? DESC_PREFIX + id : id)).join(",");
+
+const compareValues = (
+  kind: DeviceSortField["kind"],
+  a: string | number,
+  b: string | number
+): number => {
+  if (kind === "numeric") return Number(a) - Number(b);
+  return (kind === "natural" ? naturalCollator : textCollator).compare(
+    String(a),
+    String(b)
+  );
+};
+
+/**
+ * Sorts devices by several keys. Devices without a value for a key go last
+ * in either direction, and ties keep their incoming order (e.g. search
+ * relevance).
+ *
+ * @param devices - Devices to sort; not modified
+ * @param sort - Sort keys in priority order
+ * @returns A sorted copy, or the same array when there's nothing to sort by
+ *
+ * @example
+ * ```typescript
+ * sortDevices(devices, [{ id: "ports", desc: true }, { id: "sku", desc: false }]);
+ * ```
+ */
+export const sortDevices = (devices: Device[], sort: DeviceSort): Device[] => {
+  const keys = sort.flatMap(({ id, desc }) => {
+    const field = DEVICE_SORT_FIELDS.find((candidate) => candidate.id === id);
+    return field ? [{ field, desc }] : [];
+  });
+  if (keys.length === 0) return devices;
+
+  return [...devices].sort((a, b) => {
+    for (const { field, desc } of keys) {
+      const aValue = field.getValue(a);
+      const bValue = field.getValue(b);
+      const aMissing = aValue === undefined || aValue === "";
+      const bMissing = bValue === undefined || bValue === "";
+      if (aMissing || bMissing) {
+        if (aMissing !== bMissing) return aMissing ? 1 : -1;
+        continue;
+      }
+      const difference = compareValues(field.kind, aValue, bValue);
+      if (difference !== 0) return desc ? -difference : difference;
+    }
+    return 0;
+  });
+};
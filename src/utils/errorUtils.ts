@@ -1,7 +1,111 @@
+import { toAppError, HttpError } from "./appErrors";
+import { API_CONFIG } from "../config/api";
+
+/**
+ * Everything the UI needs to present a failure consistently.
+ */
+export interface ErrorDescriptor {
+  title: string; // Short heading, e.g. "Connection problem"
+  message: string; // User-friendly explanation of what failed
+  hint: string; // What the user can do about it
+  retryable: boolean; // Whether retrying can help
+  maxRetries: number; // Automatic retries allowed for this kind of failure
+}
+
+/**
+ * Describes an error by its typed category (see appErrors.ts).
+ * Untyped values are normalized with toAppError first, so plain fetch
+ * failures, timeouts, cancellations and JSON syntax errors are still
+ * classified correctly.
+ *
+ * @param error - The error object or value to describe
+ * @returns Title, message, remediation hint and retry policy for the error
+ *
+ * @example
+ * ```typescript
+ * describeError(new HttpError(503)).retryable; // true
+ * describeError(new ValidationError("Missing devices")).title; // "Unexpected catalog data"
+ * ```
+ */
+export const describeError = (error: unknown): ErrorDescriptor => {
+  const appError = toAppError(error);
+
+  switch (appError.category) {
+    case "timeout":
+      return {
+        title: "Request timed out",
+        message: "Request timeout - please try again",
+        hint: "The connection may be slow or unstable. Try again in a moment.",
+        retryable: true,
+        maxRetries: 2,
+      };
+    case "cancelled":
+      return {
+        title: "Request cancelled",
+        message: "The request was cancelled",
+        hint: "Nothing needed the data any more. Reload the page to load it again.",
+        retryable: false,
+        maxRetries: 0,
+      };
+    case "network":
+      return {
+        title: "Connection problem",
+        message: "Network error - please check your connection",
+        hint: "Check your Wi-Fi, VPN or proxy settings, then try again.",
+        retryable: true,
+        maxRetries: 3,
+      };
+    case "notFound":
+      return {
+        title: "Not found",
+        message: appError.message,
+        hint: "It may have been moved or removed. Check the address or go back to the device list.",
+        retryable: false,
+        maxRetries: 0,
+      };
+    case "validation":
+      return {
+        title: "Unexpected catalog data",
+        message: "Device data was in an unexpected format",
+        hint: "The catalog format may have changed upstream. Retrying won't help until it's fixed.",
+        retryable: false,
+        maxRetries: 0,
+      };
+    case "http": {
+      const status = appError instanceof HttpError ? appError.status : 0;
+      // 5xx, 408 (timeout) and 429 (rate limited) are worth retrying
+      if (status >= 500 || status === 408 || status === 429) {
+        return {
+          title: "Server error",
+          message: "Server error - please try again later",
+          hint: "The catalog server is having trouble. Try again in a few minutes.",
+          retryable: true,
+          maxRetries: 3,
+        };
+      }
+      return {
+        title: "Request rejected",
+        message: `The server rejected the request (status ${status})`,
+        hint: "Check the configured catalog URL (VITE_API_URL).",
+        retryable: false,
+        maxRetries: 0,
+      };
+    }
+    default:
+      return {
+        title: "Something went wrong",
+        message: appError.message,
+        hint: "Try again. If the problem persists, reload the page.",
+        retryable: true,
+        maxRetries: 1,
+      };
+  }
+};
+
 /**
  * Converts an unknown error into a user-friendly error message.
- * Handles different types of errors with specific messaging for common scenarios
- * like timeouts, 404s, server errors, and network issues.
+ * Classifies by typed error category (HttpError, NetworkError, TimeoutError,
+ * ValidationError, NotFoundError) rather than by message text.
  *
  * @param error - The error object or value to convert to a message
  * @returns A user-friendly error message string
@@ -16,36 +120,48 @@
  * }
  *
  * // Error handling examples:
- * getErrorMessage(new Error("Request timed out")); // "Request timeout - please try again"
- * getErrorMessage(new Error("404 Not Found")); // "Device data not found"
- * getErrorMessage(new Error("500 Internal Server Error")); // "Server error - please try again later"
- * getErrorMessage(new Error("Failed to fetch")); // "Network error - please check your connection"
+ * getErrorMessage(new TimeoutError(10000)); // "Request timeout - please try again"
+ * getErrorMessage(new NotFoundError()); // "Device data not found"
+ * getErrorMessage(new HttpError(500)); // "Server error - please try again later"
+ * getErrorMessage(new TypeError("Failed to fetch")); // "Network error - please check your connection"
  * getErrorMessage("string error"); // "Failed to fetch devices"
  * ```
  */
 export const getErrorMessage = (error: unknown): string => {
-  if (error instanceof Error) {
-    if (
-      error.message.includes("timeout") ||
-      error.message.includes("aborted")
-    ) {
-      return "Request timeout - please try again";
-    } else if (error.message.includes("404")) {
-      return "Device data not found";
-    } else if (
-      error.message.includes("500") ||
-      error.message.includes("server error")
-    ) {
-      return "Server error - please try again later";
-    } else if (
-      error.message.includes("network") ||
-      error.message.includes("fetch")
-    ) {
-      return "Network error - please check your connection";
-    }
-    return error.message;
-  }
-  return "Failed to fetch devices";
+  return describeError(error).message;
+};
+
+/**
+ * Retry policy for catalog requests, shaped for React Query's `retry` option.
+ * Retries only failures whose category is retryable, up to its maxRetries.
+ *
+ * @param failureCount - How many attempts have failed so far
+ * @param error - The most recent failure
+ * @returns true if another attempt should be made
+ */
+export const shouldRetryRequest = (
+  failureCount: number,
+  error: unknown
+): boolean => {
+  const { retryable, maxRetries } = describeError(error);
+  return retryable && failureCount < maxRetries;
+};
+
+/**
+ * Jittered exponential backoff for catalog retries, shaped for React Query's
+ * `retryDelay` option. Uses "full jitter": a random delay between zero and
+ * RETRY_BASE_DELAY * 2^attempt, capped at RETRY_MAX_DELAY, so many clients
+ * recovering from the same outage don't retry in lockstep.
+ *
+ * @param attempt - Zero-based index of the retry about to be made
+ * @returns Delay in milliseconds before the next attempt
+ */
+export const getRetryDelay = (attempt: number): number => {
+  const ceiling = Math.min(
+    API_CONFIG.RETRY_MAX_DELAY,
+    API_CONFIG.RETRY_BASE_DELAY * 2 ** attempt
+  );
+  return Math.round(Math.random() * ceiling);
 };
 
 /**
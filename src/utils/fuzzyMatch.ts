@@ -0,0 +1,221 @@
+/**
+ * A piece of device text to search, with how much a hit on it is worth.
+ */
+export interface WeightedField {
+  text: string;
+  weight: number; // Higher means a match here is more relevant (e.g. SKU over line name)
+}
+
+// Score multipliers for each kind of match, best first
+const MATCH_SCORES = {
+  exactField: 10, // The whole field equals the word ("u6-pro" vs SKU "U6-Pro")
+  exactToken: 6, // A word in the field equals the word
+  prefix: 4, // A word in the field starts with the word
+  substring: 3, // The word appears somewhere, ignoring spaces and dashes ("flexmini")
+  fuzzy: 2, // Within the allowed edit distance, minus a penalty per edit
+} as const;
+
+/**
+ * Splits text into lowercase alphanumeric tokens.
+ *
+ * @example
+ * ```typescript
+ * tokenizeText("USW-Flex-Mini"); // ["usw", "flex", "mini"]
+ * ```
+ */
+export const tokenizeText = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+// Lowercases and drops separators so "Flex Mini" and "flexmini" compare equal
+const compact = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * How many typos a word may contain and still match.
+ * Short words must match exactly; longer words tolerate more edits.
+ *
+ * @param length - Length of the word being searched for
+ * @returns Maximum edit distance allowed
+ */
+export const getMaxEditDistance = (length: number): number => {
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return 2;
+};
+
+/**
+ * Levenshtein distance between two strings, giving up once it exceeds max.
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @param max - Largest distance of interest
+ * @returns The edit distance, or max + 1 if it's larger than max
+ *
+ * @example
+ * ```typescript
+ * editDistance("enterprize", "enterprise", 2); // 1
+ * editDistance("switch", "router", 2); // 3 (more than max)
+ * ```
+ */
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    // Every path through this row already costs more than max
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Field text prepared once for repeated matching.
+ */
+export interface PreparedText {
+  text: string; // Lowercase text
+  compact: string; // Lowercase text without spaces or punctuation
+  tokens: string[]; // Words in the text (see tokenizeText)
+}
+
+/**
+ * Lowercases and tokenizes text so it can be scored many times cheaply.
+ */
+export const prepareText = (text: string): PreparedText => ({
+  text: text.toLowerCase(),
+  compact: compact(text),
+  tokens: tokenizeText(text),
+});
+
+/**
+ * Score for a match that needed the given number of edits.
+ */
+export const getFuzzyScore = (distance: number): number =>
+  MATCH_SCORES.fuzzy - distance * 0.5;
+
+/**
+ * Scores a word that appears somewhere in a field, ignoring spaces and
+ * dashes ("flexmini" in "USW Flex Mini"), without checking for whole-field
+ * or word matches first.
+ *
+ * @param word - Lowercase search word
+ * @param target - Field text, prepared with prepareText
+ * @returns The substring score, 0 if the word isn't in the field
+ */
+export const scoreSubstring = (word: string, target: PreparedText): number => {
+  const compactWord = compact(word);
+  return target.text.includes(word) ||
+    (compactWord && target.compact.includes(compactWord))
+    ? MATCH_SCORES.substring
+    : 0;
+};
+
+/**
+ * Scores how well a single search word matches one field.
+ *
+ * @param word - Lowercase search word
+ * @param target - Field text, prepared with prepareText
+ * @param fuzzy - Whether to fall back to typo-tolerant matching
+ * @returns A score without the field weight applied, 0 if it doesn't match
+ */
+export const scorePreparedText = (
+  word: string,
+  target: PreparedText,
+  fuzzy: boolean
+): number => {
+  if (!target.text) return 0;
+  const compactWord = compact(word);
+  if (target.text === word || target.compact === compactWord) {
+    return MATCH_SCORES.exactField;
+  }
+
+  if (target.tokens.includes(word)) return MATCH_SCORES.exactToken;
+  if (target.tokens.some((token) => token.startsWith(word))) {
+    return MATCH_SCORES.prefix;
+  }
+  const substring = scoreSubstring(word, target);
+  if (substring > 0) return substring;
+
+  const maxDistance = getMaxEditDistance(word.length);
+  if (!fuzzy || maxDistance === 0) return 0;
+
+  // Typos: compare against each token and the whole field without separators
+  let best = maxDistance + 1;
+  for (const candidate of [...target.tokens, target.compact]) {
+    best = Math.min(best, editDistance(word, candidate, maxDistance));
+  }
+
+  return best <= maxDistance ? getFuzzyScore(best) : 0;
+};
+
+/**
+ * Scores a search word against several weighted fields and keeps the best hit.
+ *
+ * @param word - Search word or phrase (matched case-insensitively)
+ * @param fields - Device fields with their relevance weights
+ * @param fuzzy - Whether to allow typos (defaults to false)
+ * @returns The best weighted score, 0 if no field matches
+ *
+ * @example
+ * ```typescript
+ * scoreWord("flexmini", [{ text: "Flex Mini", weight: 6 }]); // 60
+ * scoreWord("enterprize", [{ text: "Enterprise 24 PoE", weight: 6 }], true); // 9
+ * ```
+ */
+export const scoreWord = (
+  word: string,
+  fields: WeightedField[],
+  fuzzy = false
+): number => {
+  const lowerWord = word.toLowerCase();
+  let best = 0;
+  for (const field of fields) {
+    const score = scorePreparedText(lowerWord, prepareText(field.text), fuzzy);
+    best = Math.max(best, score * field.weight);
+  }
+  return best;
+};
+
+/**
+ * Finds the closest vocabulary word to a misspelled one, allowing a little
+ * more slack than matching does so it can suggest what matching missed.
+ *
+ * @param word - The word that found nothing
+ * @param vocabulary - Known words from the catalog
+ * @returns The closest known word, or null if nothing is close enough
+ */
+export const findClosestWord = (
+  word: string,
+  vocabulary: Iterable<string>
+): string | null => {
+  const lowerWord = word.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(lowerWord.length / 3));
+  let best: string | null = null;
+  let bestDistance = maxDistance + 1;
+
+  for (const candidate of vocabulary) {
+    if (candidate === lowerWord) return null;
+    const distance = editDistance(lowerWord, candidate, maxDistance);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,78 @@
+import type { Device } from "../types/device";
+
+/**
+ * A market a device can be sold in, identified by the certifications it
+ * needs there.
+ */
+export interface RegulatoryRegion {
+  id: string; // URL value, e.g. "br"
+  label: string; // e.g. "Brazil"
+  marks: readonly string[]; // Certifications that qualify, e.g. ["ANATEL"]
+}
+
+/**
+ * Regions in selector order.
+ */
+export const REGULATORY_REGIONS: readonly RegulatoryRegion[] = [
+  { id: "na", label: "North America", marks: ["FCC", "IC"] },
+  { id: "br", label: "Brazil", marks: ["ANATEL"] },
+  { id: "anz", label: "Australia / New Zealand", marks: ["RCM"] },
+  { id: "jp", label: "Japan", marks: ["JRF", "JPA"] },
+  { id: "tw", label: "Taiwan", marks: ["NCC"] },
+];
+
+const hasText = (value: string | undefined): boolean => !!value?.trim();
+
+const hasEntries = (value: string[] | undefined): boolean =>
+  !!value?.some((entry) => entry.trim());
+
+// Whether the device carries each certification. JRF identifiers are also
+// published at the top level of some devices, outside compliance.
+const CERTIFICATION_CHECKS: Record<string, (device: Device) => boolean> = {
+  FCC: (device) => hasText(device.compliance?.fcc),
+  IC: (device) => hasText(device.compliance?.ic),
+  ANATEL: (device) => hasText(device.compliance?.anatel),
+  RCM: (device) => device.compliance?.rcm === true,
+  JRF: (device) => hasEntries(device.compliance?.jrf) || hasEntries(device.jrf),
+  JPA: (device) => hasEntries(device.compliance?.jpa),
+  NCC: (device) => hasText(device.compliance?.ncc),
+};
+
+/**
+ * Lists the certifications a device carries for a region.
+ *
+ * @param device - Device to check
+ * @param region - Region whose certifications count
+ * @returns The region's marks the device has, in the region's order; empty if
+ *   the device can't be sold there
+ *
+ * @example
+ * ```typescript
+ * getCertificationMarks(u6Pro, getRegulatoryRegion("na")!); // ["FCC", "IC"]
+ * ```
+ */
+export const getCertificationMarks = (
+  device: Device,
+  region: RegulatoryRegion
+): string[] =>
+  region.marks.filter((mark) => CERTIFICATION_CHECKS[mark](device));
+
+/**
+ * Lists the regions a device is certified for.
+ *
+ * @param device - Device to check
+ * @returns Regions with at least one qualifying certification
+ */
+export const getCertifiedRegions = (device: Device): RegulatoryRegion[] =>
+  REGULATORY_REGIONS.filter(
+    (region) => getCertificationMarks(device, region).length > 0
+  );
+
+/**
+ * Looks up a region by its URL value.
+ *
+ * @param id - Region id, e.g. "jp"
+ * @returns The region, or undefined for unknown ids
+ */
+export const getRegulatoryRegion = (id: string): RegulatoryRegion | undefined =>
+  REGULATORY_REGIONS.find((region) => region.id === id);
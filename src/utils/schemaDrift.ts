@@ -0,0 +1,219 @@
+import { z } from "zod";
+
+/**
+ * JSON value types as seen in the raw catalog payload.
+ */
+export type JsonValueType =
+  "string" | "number" | "boolean" | "null" | "array" | "object";
+
+/**
+ * A raw field the schema doesn't describe, or describes with another type.
+ */
+export interface DriftField {
+  path: string; // Dotted path; "[]" marks array items and "*" record entries
+  occurrences: number; // How many times the field was seen across all devices
+  types: Partial<Record<JsonValueType, number>>; // Occurrences per raw value type
+  expected?: string; // Type the schema expects (type mismatches only)
+}
+
+/**
+ * A field the schema declares that never appeared in the payload.
+ */
+export interface MissingSchemaField {
+  path: string;
+  optional: boolean; // Optional fields may legitimately be absent
+}
+
+/**
+ * Differences between the raw catalog payload and DeviceSchema.
+ */
+export interface SchemaDriftReport {
+  deviceCount: number; // Raw devices that were inspected
+  unknownFields: DriftField[]; // Keys present in the payload but not in the schema
+  typeMismatches: DriftField[]; // Known keys whose raw value has an unexpected type
+  missingFields: MissingSchemaField[]; // Schema keys never present in any device
+}
+
+// Accumulates occurrences while walking the payload
+interface DriftAccumulator {
+  unknown: Map<string, DriftField>;
+  mismatched: Map<string, DriftField>;
+  seen: Set<string>;
+}
+
+const getJsonType = (value: unknown): JsonValueType => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  const type = typeof value;
+  return type === "string" || type === "number" || type === "boolean"
+    ? type
+    : "object";
+};
+
+// Strips optional/nullable wrappers so the underlying schema can be inspected
+const unwrapSchema = (schema: z.ZodType): z.ZodType => {
+  let current = schema;
+  while (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+    current = current.unwrap() as z.ZodType;
+  }
+  return current;
+};
+
+// JSON type a schema accepts, or null if it accepts anything
+const getExpectedType = (schema: z.ZodType): JsonValueType | null => {
+  if (schema instanceof z.ZodString) return "string";
+  if (schema instanceof z.ZodNumber) return "number";
+  if (schema instanceof z.ZodBoolean) return "boolean";
+  if (schema instanceof z.ZodArray) return "array";
+  if (schema instanceof z.ZodObject || schema instanceof z.ZodRecord) {
+    return "object";
+  }
+  return null;
+};
+
+const countOccurrence = (
+  fields: Map<string, DriftField>,
+  path: string,
+  value: unknown,
+  expected?: string
+): void => {
+  const field = fields.get(path) ?? {
+    path,
+    occurrences: 0,
+    types: {},
+    expected,
+  };
+  const type = getJsonType(value);
+  field.occurrences += 1;
+  field.types[type] = (field.types[type] ?? 0) + 1;
+  fields.set(path, field);
+};
+
+const joinPath = (parent: string, key: string): string =>
+  parent ? `${parent}.${key}` : key;
+
+// Walks a raw value alongside the schema that is supposed to describe it
+function walkValue(
+  value: unknown,
+  schema: z.ZodType,
+  path: string,
+  acc: DriftAccumulator
+): void {
+  const target = unwrapSchema(schema);
+  const expected = getExpectedType(target);
+  if (expected === null) return;
+
+  // Absent optional values aren't drift
+  if (value === undefined) return;
+
+  if (getJsonType(value) !== expected) {
+    countOccurrence(acc.mismatched, path, value, expected);
+    return;
+  }
+
+  if (target instanceof z.ZodObject) {
+    const shape = target.shape as Record<string, z.ZodType>;
+    for (const [key, child] of Object.entries(value as object)) {
+      const childPath = joinPath(path, key);
+      if (key in shape) {
+        acc.seen.add(childPath);
+        walkValue(child, shape[key], childPath, acc);
+      } else {
+        countOccurrence(acc.unknown, childPath, child);
+      }
+    }
+  } else if (target instanceof z.ZodRecord) {
+    for (const child of Object.values(value as object)) {
+      walkValue(child, target.valueType as z.ZodType, `${path}.*`, acc);
+    }
+  } else if (target instanceof z.ZodArray) {
+    for (const item of value as unknown[]) {
+      walkValue(item, target.element as z.ZodType, `${path}[]`, acc);
+    }
+  }
+}
+
+// Lists every object key the schema declares, with whether it's optional
+function collectSchemaFields(
+  schema: z.ZodType,
+  path: string,
+  fields: MissingSchemaField[]
+): void {
+  const target = unwrapSchema(schema);
+
+  if (target instanceof z.ZodObject) {
+    const shape = target.shape as Record<string, z.ZodType>;
+    for (const [key, child] of Object.entries(shape)) {
+      const childPath = joinPath(path, key);
+      fields.push({
+        path: childPath,
+        optional: child instanceof z.ZodOptional,
+      });
+      collectSchemaFields(child, childPath, fields);
+    }
+  } else if (target instanceof z.ZodArray) {
+    collectSchemaFields(target.element as z.ZodType, `${path}[]`, fields);
+  }
+}
+
+const byOccurrences = (a: DriftField, b: DriftField) =>
+  b.occurrences - a.occurrences || a.path.localeCompare(b.path);
+
+/**
+ * Compares raw device JSON against a schema and reports where they disagree.
+ * Walks every device, counting keys the schema doesn't know about and values
+ * whose type the schema doesn't accept, then lists schema keys that never
+ * appeared. Zod silently strips unknown keys, so this is the only place new
+ * upstream fields show up.
+ *
+ * @param rawDevices - Devices exactly as they appear in the payload
+ * @param schema - Schema describing a single device (usually DeviceSchema)
+ * @returns Drift report with occurrence counts, most frequent first
+ *
+ * @example
+ * ```typescript
+ * const report = detectSchemaDrift(
+ *   [{ id: "a", sku: 42, newField: true }],
+ *   z.object({ id: z.string(), sku: z.string(), name: z.string() })
+ * );
+ * // report.unknownFields  -> [{ path: "newField", occurrences: 1, types: { boolean: 1 } }]
+ * // report.typeMismatches -> [{ path: "sku", expected: "string", types: { number: 1 }, ... }]
+ * // report.missingFields  -> [{ path: "name", optional: false }]
+ * ```
+ */
+export const detectSchemaDrift = (
+  rawDevices: unknown[],
+  schema: z.ZodType
+): SchemaDriftReport => {
+  const acc: DriftAccumulator = {
+    unknown: new Map(),
+    mismatched: new Map(),
+    seen: new Set(),
+  };
+
+  for (const rawDevice of rawDevices) {
+    walkValue(rawDevice, schema, "", acc);
+  }
+
+  const schemaFields: MissingSchemaField[] = [];
+  collectSchemaFields(schema, "", schemaFields);
+
+  // Only report the outermost missing field; its children are implied
+  const missingFields: MissingSchemaField[] = [];
+  for (const field of schemaFields) {
+    if (acc.seen.has(field.path)) continue;
+    const underMissingParent = missingFields.some(
+      (parent) =>
+        field.path.startsWith(`${parent.path}.`) ||
+        field.path.startsWith(`${parent.path}[]`)
+    );
+    if (!underMissingParent) missingFields.push(field);
+  }
+
+  return {
+    deviceCount: rawDevices.length,
+    unknownFields: [...acc.unknown.values()].sort(byOccurrences),
+    typeMismatches: [...acc.mismatched.values()].sort(byOccurrences),
+    missingFields,
+  };
+};
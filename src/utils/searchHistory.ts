@@ -0,0 +1,188 @@
+import type { RecentSearch, SavedSearch, SearchEntry } from "../types/search";
+import {
+  DEVICE_FACETS,
+  PRODUCT_LINE_FACET,
+  splitFacetValues,
+  type FacetSelection,
+} from "./deviceFacets";
+
+/**
+ * How many recent searches are kept.
+ */
+export const MAX_RECENT_SEARCHES = 10;
+
+// Copies a selection, leaving out facets with nothing selected
+const copySelection = (selection: FacetSelection): Record<string, string[]> =>
+  Object.fromEntries(
+    Object.entries(selection)
+      .filter(([, values]) => values.length > 0)
+      .map(([key, values]) => [key, [...values]])
+  );
+
+const isSameSelection = (a: FacetSelection, b: FacetSelection): boolean =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])].every((key) => {
+    const aValues = a[key] || [];
+    const bValues = b[key] || [];
+    return (
+      aValues.length === bValues.length &&
+      aValues.every((value) => bValues.includes(value))
+    );
+  });
+
+/**
+ * Whether two searches would show the same devices: the same query (ignoring
+ * case and surrounding spaces), the same facet values in any order and the
+ * same compatibility filter.
+ */
+export const isSameSearch = (a: SearchEntry, b: SearchEntry): boolean =>
+  a.query.trim().toLowerCase() === b.query.trim().toLowerCase() &&
+  isSameSelection(a.selection, b.selection) &&
+  a.hideIncompatible === b.hideIncompatible;
+
+/**
+ * Whether a search has anything in it worth remembering.
+ */
+export const isEmptySearch = (entry: SearchEntry): boolean =>
+  !entry.query.trim() &&
+  Object.values(entry.selection).every((values) => values.length === 0) &&
+  !entry.hideIncompatible;
+
+// The part of a search a remembered copy keeps
+const toSearchEntry = (entry: SearchEntry): SearchEntry => ({
+  query: entry.query.trim(),
+  selection: copySelection(entry.selection),
+  hideIncompatible: entry.hideIncompatible,
+});
+
+/**
+ * Puts a search at the top of the recent list, dropping an older copy of it
+ * and anything past MAX_RECENT_SEARCHES.
+ *
+ * @param recent - Current recent searches, most recent first
+ * @param entry - The search that was run
+ * @param usedAt - When it was run (epoch millis)
+ * @returns The new list; the same list if the search is empty
+ *
+ * @example
+ * ```typescript
+ * addRecentSearch(
+ *   [],
+ *   { query: "cap:poe", selection: {}, hideIncompatible: false },
+ *   Date.now()
+ * );
+ * // [{ query: "cap:poe", selection: {}, hideIncompatible: false, usedAt: ... }]
+ * ```
+ */
+export const addRecentSearch = (
+  recent: RecentSearch[],
+  entry: SearchEntry,
+  usedAt: number
+): RecentSearch[] => {
+  if (isEmptySearch(entry)) return recent;
+  return [
+    { ...toSearchEntry(entry), usedAt },
+    ...recent.filter((search) => !isSameSearch(search, entry)),
+  ].slice(0, MAX_RECENT_SEARCHES);
+};
+
+/**
+ * Creates a saved search with a fresh id.
+ *
+ * @param name - What the user called it; falls back to describeSearch
+ * @param entry - The query and filters to save
+ * @param createdAt - Epoch millis
+ */
+export const createSavedSearch = (
+  name: string,
+  entry: SearchEntry,
+  createdAt: number
+): SavedSearch => ({
+  id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim() || describeSearch(entry),
+  ...toSearchEntry(entry),
+  createdAt,
+});
+
+/**
+ * Moves an item up (negative offset) or down the list, clamped to its ends.
+ *
+ * @returns A new list; the same list if the id isn't found or can't move
+ */
+export const moveSavedSearch = (
+  saved: SavedSearch[],
+  id: string,
+  offset: number
+): SavedSearch[] => {
+  const from = saved.findIndex((search) => search.id === id);
+  const to = Math.min(Math.max(from + offset, 0), saved.length - 1);
+  if (from === -1 || from === to) return saved;
+
+  const next = [...saved];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// "UniFi WiFi, not UISP airMAX", with values shown as their facet shows them
+const describeValues = (
+  values: readonly string[] = [],
+  formatValue: (value: string) => string = (value) => value
+): string => {
+  const { include, exclude } = splitFacetValues(values);
+  return [
+    ...include.map(formatValue),
+    ...exclude.map((value) => `not ${formatValue(value)}`),
+  ].join(", ");
+};
+
+/**
+ * One-line description of a search, e.g. `cap:poe in UniFi Switching`, with
+ * any other facets and the compatibility filter after it.
+ *
+ * @example
+ * ```typescript
+ * describeSearch({
+ *   query: "",
+ *   selection: { lines: ["UniFi Protect"] },
+ *   hideIncompatible: false,
+ * }); // "UniFi Protect"
+ * describeSearch({
+ *   query: "poe",
+ *   selection: { lines: ["-UISP airMAX"], region: ["br"] },
+ *   hideIncompatible: true,
+ * }); // "poe in not UISP airMAX; Region: Brazil; adoptable only"
+ * ```
+ */
+export const describeSearch = (entry: SearchEntry): string => {
+  const query = entry.query.trim();
+  const lines = describeValues(entry.selection[PRODUCT_LINE_FACET]);
+  const filters = DEVICE_FACETS.filter(
+    ({ key }) => key !== PRODUCT_LINE_FACET && entry.selection[key]?.length
+  ).map(
+    (facet) =>
+      `${facet.label}: ${describeValues(entry.selection[facet.key], facet.formatValue)}`
+  );
+  if (entry.hideIncompatible) filters.push("adoptable only");
+
+  const search = query && lines ? `${query} in ${lines}` : query || lines;
+  return [search, ...filters].filter(Boolean).join("; ") || "All devices";
+};
+
+/**
+ * Serializes saved searches for download, without the internal ids.
+ *
+ * @param saved - Saved searches in display order
+ * @returns Pretty-printed JSON
+ */
+export const exportSavedSearches = (saved: SavedSearch[]): string =>
+  JSON.stringify(
+    saved.map(({ name, query, selection, hideIncompatible, createdAt }) => ({
+      name,
+      query,
+      selection,
+      hideIncompatible,
+      createdAt: new Date(createdAt).toISOString(),
+    })),
+    null,
+    2
+  );
@@ -0,0 +1,74 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { loadFixtureDevices } from "../test/fixtures";
+import type { Device } from "../types/device";
+import { matchesSearchQuery } from "./deviceFilters";
+import {
+  buildSearchIndex,
+  getAutocompleteMatches,
+  getFieldValueMatches,
+  searchIndex,
+  type SearchIndex,
+} from "./searchIndex";
+import { parseSearchQuery } from "./searchQuery";
+
+let devices: Device[];
+let index: SearchIndex;
+
+const search = (query: string) =>
+  searchIndex(index, parseSearchQuery(query).root);
+
+beforeAll(async () => {
+  devices = await loadFixtureDevices();
+  index = buildSearchIndex(devices);
+});
+
+describe("searchIndex", () => {
+  // Words inside other words ("6" in "U6-Pro") have no postings of their own,
+  // and must still be found next to values that do
+  it.each([
+    "6",
+    "e",
+    "pro",
+    "a650",
+    "u6-pro",
+    "g4bullet",
+    "unifi protect",
+    "switch -pro",
+    "u6 OR bullet",
+    "sku:*-pro 6",
+  ])("finds the same devices as matching each one for %s", (query) => {
+    expect(search(query).map(({ device }) => device.sku)).toEqual(
+      devices
+        .filter((device) => matchesSearchQuery(device, query))
+        .map((device) => device.sku)
+    );
+  });
+
+  it("credits the strongest field behind a match", () => {
+    const [hit] = search("u6-pro");
+    expect(hit.device.sku).toBe("U6-Pro");
+    expect(hit.match).toMatchObject({ field: "sku", value: "U6-Pro" });
+  });
+
+  it("retries a word that matches nothing with typos allowed", () => {
+    expect(search("bulet").map(({ device }) => device.sku)).toEqual([
+      "UVC-G4-Bullet",
+    ]);
+    expect(search("-bulet")).toHaveLength(devices.length);
+  });
+});
+
+describe("autocomplete lookups", () => {
+  it("ranks whole values above prefixes and words inside values", () => {
+    const matches = getAutocompleteMatches(index, "u6-pro");
+    expect(matches.get(0)).toBe("exact");
+    expect(getAutocompleteMatches(index, "u6").get(0)).toBe("prefix");
+    expect(getAutocompleteMatches(index, "pro").get(0)).toBe("contains");
+  });
+
+  it("suggests the distinct values of one field", () => {
+    expect(
+      getFieldValueMatches(index, "sku", "pro").map(({ value }) => value)
+    ).toEqual(["U6-Pro", "UDM-Pro"]);
+  });
+});
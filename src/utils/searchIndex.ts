@@ -0,0 +1,565 @@
+import type { Device } from "../types/device";
+import {
+  editDistance,
+  getFuzzyScore,
+  getMaxEditDistance,
+  prepareText,
+  scorePreparedText,
+  scoreSubstring,
+  type PreparedText,
+} from "./fuzzyMatch";
+import {
+  evaluateSearchQuery,
+  FREE_TEXT_FIELDS,
+  type SearchNode,
+} from "./searchQuery";
+
+// One distinct value of a field, prepared once for matching
+interface IndexedValue extends PreparedText {
+  raw: string; // The value as it appears in the catalog
+  devices: number[]; // Positions in SearchIndex.devices that have this value
+}
+
+/**
+ * Inverted index over one free text field.
+ */
+export interface FieldIndex {
+  name: string; // FREE_TEXT_FIELDS name, e.g. "sku"
+  label: string; // e.g. "FCC ID"
+  weight: number;
+  identifier: boolean; // Hits get called out on result rows
+  values: IndexedValue[]; // Distinct values; line names are shared by many devices
+  sortedValues: IndexedValue[]; // values sorted by text, for prefix lookups
+  compactValues: Map<string, IndexedValue[]>; // Text without separators -> values
+  tokens: Map<string, IndexedValue[]>; // Token -> values it appears in
+  sortedTokens: string[]; // Keys of tokens, sorted for prefix lookups
+}
+
+/**
+ * Search index over a catalog, built once per catalog load and shared by
+ * filtering, ranking, autocomplete and "did you mean".
+ * Devices are referred to by their position in `devices`, so results can be
+ * put back in catalog order without a lookup.
+ */
+export interface SearchIndex {
+  devices: Device[];
+  fields: FieldIndex[];
+}
+
+/**
+ * The field value that contributed most to a device matching.
+ */
+export interface FieldMatch {
+  field: string; // FREE_TEXT_FIELDS name, e.g. "fcc"
+  label: string; // e.g. "FCC ID"
+  value: string; // The matched value, e.g. "SWX-U6PRO"
+  identifier: boolean; // Whether the field is one result rows don't show
+}
+
+/**
+ * A device matched by a query, with its relevance score.
+ */
+export interface ScoredMatch {
+  device: Device;
+  position: number; // Position in the catalog
+  score: number;
+  match?: FieldMatch; // Best free text hit; absent for field-term-only queries
+}
+
+// A device's score so far, and the single best free text hit behind it
+interface Hit {
+  score: number;
+  best?: { score: number; field: FieldIndex; value: IndexedValue };
+}
+
+// Hits by device position
+type Hits = Map<number, Hit>;
+
+// Word lookups are repeated on every keystroke while the rest of the query is
+// typed, so each index remembers recent ones
+const MAX_CACHED_LOOKUPS = 500;
+const lookupCache = new WeakMap<SearchIndex, Map<string, Hits>>();
+
+// Values are added one at a time, so a repeat can only be the last entry
+const addPosting = (
+  map: Map<string, IndexedValue[]>,
+  key: string,
+  value: IndexedValue
+) => {
+  const postings = map.get(key);
+  if (!postings) {
+    map.set(key, [value]);
+  } else if (postings[postings.length - 1] !== value) {
+    postings.push(value);
+  }
+};
+
+// Plain code unit order, the order startsWith agrees with
+const compareKeys = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Binary searches a list sorted by key for the items whose key starts with
+// prefix
+const getPrefixRange = <T>(
+  sorted: T[],
+  getKey: (item: T) => string,
+  prefix: string
+): T[] => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (getKey(sorted[middle]) < prefix) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  let end = low;
+  while (end < sorted.length && getKey(sorted[end]).startsWith(prefix)) end++;
+  return sorted.slice(low, end);
+};
+
+// Adds the values that have a word starting with prefix
+const addTokenPrefixMatches = (
+  field: FieldIndex,
+  prefix: string,
+  values: Set<IndexedValue>
+): Set<IndexedValue> => {
+  for (const token of getPrefixRange(field.sortedTokens, (t) => t, prefix)) {
+    field.tokens.get(token)?.forEach((value) => values.add(value));
+  }
+  return values;
+};
+
+/**
+ * Builds the search index for a catalog. Lowercasing and tokenizing happen
+ * here, once, instead of for every device on every keystroke.
+ *
+ * @param devices - The catalog's devices, in display order
+ * @returns An index to pass to searchIndex, getAutocompleteMatches, etc.
+ *
+ * @example
+ * ```typescript
+ * const index = buildSearchIndex(devices);
+ * searchIndex(index, parseSearchQuery("flex mini").root);
+ * ```
+ */
+export const buildSearchIndex = (devices: Device[]): SearchIndex => {
+  const fields = FREE_TEXT_FIELDS.map(({ get, identifier, ...field }) => {
+    const values = new Map<string, IndexedValue>();
+    const compactValues = new Map<string, IndexedValue[]>();
+    const tokens = new Map<string, IndexedValue[]>();
+
+    devices.forEach((device, position) => {
+      for (const raw of get(device)) {
+        if (!raw) continue;
+        const key = raw.toLowerCase();
+        let value = values.get(key);
+        if (!value) {
+          const created: IndexedValue = {
+            ...prepareText(raw),
+            raw,
+            devices: [],
+          };
+          values.set(key, created);
+          addPosting(compactValues, created.compact, created);
+          created.tokens.forEach((token) => addPosting(tokens, token, created));
+          value = created;
+        }
+        if (value.devices[value.devices.length - 1] !== position) {
+          value.devices.push(position);
+        }
+      }
+    });
+
+    return {
+      ...field,
+      identifier: !!identifier,
+      values: [...values.values()],
+      sortedValues: [...values.values()].sort((a, b) =>
+        compareKeys(a.text, b.text)
+      ),
+      compactValues,
+      tokens,
+      sortedTokens: [...tokens.keys()].sort(compareKeys),
+    };
+  });
+
+  return { devices, fields };
+};
+
+// Keeps the best hit per device
+const mergeBest = (
+  hits: Hits,
+  positions: number[],
+  rawScore: number,
+  field: FieldIndex,
+  value: IndexedValue
+) => {
+  const score = rawScore * field.weight;
+  for (const position of positions) {
+    if (score > (hits.get(position)?.score ?? 0)) {
+      hits.set(position, { score, best: { score, field, value } });
+    }
+  }
+};
+
+// Typo-tolerant pass: edit distance against each distinct field value, both
+// without separators and word by word
+const lookupFuzzy = (field: FieldIndex, word: string, hits: Hits) => {
+  const maxDistance = getMaxEditDistance(word.length);
+  if (maxDistance === 0) return;
+
+  for (const value of field.values) {
+    let distance = editDistance(word, value.compact, maxDistance);
+    for (const token of value.tokens) {
+      if (distance === 0) break;
+      distance = Math.min(distance, editDistance(word, token, maxDistance));
+    }
+    if (distance <= maxDistance) {
+      mergeBest(hits, value.devices, getFuzzyScore(distance), field, value);
+    }
+  }
+};
+
+/**
+ * Scores every device against a single free text word. Each distinct field
+ * value is scored once and the score is handed to all devices sharing it.
+ * Values equal to the word or with a word starting with it come from the
+ * postings; the rest only get a substring check, so the hits are the same
+ * as matching each device directly. Typos are only tried when no field
+ * matched.
+ *
+ * @param index - The catalog's search index
+ * @param word - A free text word or quoted phrase
+ * @param fuzzy - Whether to allow typos
+ * @returns Best weighted hit by device position; empty if nothing matches
+ */
+export const lookupWord = (
+  index: SearchIndex,
+  word: string,
+  fuzzy: boolean
+): Hits => {
+  const lowerWord = word.toLowerCase();
+  const cacheKey = `${fuzzy ? "~" : "="}${lowerWord}`;
+  let cache = lookupCache.get(index);
+  if (!cache) {
+    cache = new Map();
+    lookupCache.set(index, cache);
+  }
+  const cached = cache.get(cacheKey);
+  if (cached) return cached;
+
+  const hits: Hits = new Map();
+  const { compact } = prepareText(lowerWord);
+  for (const field of index.fields) {
+    const posted = addTokenPrefixMatches(
+      field,
+      lowerWord,
+      new Set(field.compactValues.get(compact))
+    );
+    for (const value of field.values) {
+      // The rest can still have it inside a word, e.g. "lex" or "6pro"
+      const score = posted.has(value)
+        ? scorePreparedText(lowerWord, value, false)
+        : scoreSubstring(lowerWord, value);
+      if (score > 0) mergeBest(hits, value.devices, score, field, value);
+    }
+  }
+  if (hits.size === 0 && fuzzy) {
+    for (const field of index.fields) lookupFuzzy(field, lowerWord, hits);
+  }
+
+  if (cache.size >= MAX_CACHED_LOOKUPS) cache.clear();
+  cache.set(cacheKey, hits);
+  return hits;
+};
+
+// Positions of every device, or the candidates if already narrowed down
+const getPositions = (index: SearchIndex, candidates: number[] | null) =>
+  candidates ?? index.devices.map((_, position) => position);
+
+const restrict = (hits: Hits, candidates: number[] | null): Hits => {
+  if (!candidates) return new Map(hits);
+  const restricted: Hits = new Map();
+  for (const position of candidates) {
+    const hit = hits.get(position);
+    if (hit) restricted.set(position, hit);
+  }
+  return restricted;
+};
+
+// Adds up two hits on the same device, keeping the stronger attribution
+const combine = (a: Hit, b: Hit): Hit => ({
+  score: a.score + b.score,
+  best: (a.best?.score ?? 0) >= (b.best?.score ?? 0) ? a.best : b.best,
+});
+
+const FILTER_ONLY: Hit = { score: 0 };
+
+// Checks a term that the index can't answer (field terms, globs) device by
+// device; these only filter, so they score 0
+const filterByNode = (
+  index: SearchIndex,
+  node: SearchNode,
+  candidates: number[] | null
+): Hits => {
+  const hits: Hits = new Map();
+  for (const position of getPositions(index, candidates)) {
+    if (evaluateSearchQuery(index.devices[position], node)) {
+      hits.set(position, FILTER_ONLY);
+    }
+  }
+  return hits;
+};
+
+// Index lookups first: they're cheap and usually narrow things down the most
+const isIndexed = (node: SearchNode) =>
+  node.type === "text" && !node.value.includes("*");
+
+function evaluate(
+  index: SearchIndex,
+  node: SearchNode,
+  candidates: number[] | null,
+  negated: boolean
+): Hits {
+  switch (node.type) {
+    case "and": {
+      const children = [...node.children].sort(
+        (a, b) => Number(isIndexed(b)) - Number(isIndexed(a))
+      );
+      let current: Hits | null = null;
+      for (const child of children) {
+        const hits: Hits = evaluate(
+          index,
+          child,
+          current ? [...current.keys()] : candidates,
+          negated
+        );
+        if (current) {
+          for (const [position, hit] of hits) {
+            const previous = current.get(position);
+            if (previous) hits.set(position, combine(previous, hit));
+          }
+        }
+        current = hits;
+        if (current.size === 0) break;
+      }
+      return current ?? new Map();
+    }
+    case "or": {
+      const hits: Hits = new Map();
+      for (const child of node.children) {
+        for (const [position, hit] of evaluate(
+          index,
+          child,
+          candidates,
+          negated
+        )) {
+          if (hit.score >= (hits.get(position)?.score ?? -1)) {
+            hits.set(position, hit);
+          }
+        }
+      }
+      return hits;
+    }
+    case "not": {
+      const excluded = evaluate(index, node.child, candidates, !negated);
+      const hits: Hits = new Map();
+      for (const position of getPositions(index, candidates)) {
+        if (!excluded.has(position)) hits.set(position, FILTER_ONLY);
+      }
+      return hits;
+    }
+    case "text": {
+      if (!isIndexed(node)) return filterByNode(index, node, candidates);
+      // A word that matches nothing as typed is retried with typos allowed.
+      // Negated words never are, or "-lite" would also hide every "site".
+      const exact = lookupWord(index, node.value, false);
+      const hits =
+        exact.size === 0 && !negated
+          ? lookupWord(index, node.value, true)
+          : exact;
+      return restrict(hits, candidates);
+    }
+    case "field":
+      return filterByNode(index, node, candidates);
+  }
+}
+
+/**
+ * Runs a parsed query against the index.
+ *
+ * @param index - The catalog's search index
+ * @param root - Root of a parsed query; null matches every device
+ * @returns Matching devices in catalog order, with relevance scores and the
+ * field value behind each match
+ */
+export const searchIndex = (
+  index: SearchIndex,
+  root: SearchNode | null
+): ScoredMatch[] => {
+  if (!root) {
+    return index.devices.map((device, position) => ({
+      device,
+      position,
+      score: 0,
+    }));
+  }
+
+  return [...evaluate(index, root, null, false)]
+    .sort(([a], [b]) => a - b)
+    .map(([position, { score, best }]) => ({
+      device: index.devices[position],
+      position,
+      score,
+      match: best && {
+        field: best.field.name,
+        label: best.field.label,
+        value: best.value.raw,
+        identifier: best.field.identifier,
+      },
+    }));
+};
+
+/**
+ * How well a device's field matched an autocomplete query.
+ */
+export type AutocompleteMatchType = "exact" | "prefix" | "contains";
+
+const MATCH_TYPE_RANK: Record<AutocompleteMatchType, number> = {
+  exact: 3,
+  prefix: 2,
+  contains: 1,
+};
+
+/**
+ * How a value matches what the user has typed so far, if it does at all.
+ *
+ * @param text - Lowercase value
+ * @param query - Lowercase query
+ */
+export const getAutocompleteMatchType = (
+  text: string,
+  query: string
+): AutocompleteMatchType | null =>
+  text === query
+    ? "exact"
+    : text.startsWith(query)
+      ? "prefix"
+      : text.includes(query)
+        ? "contains"
+        : null;
+
+// Values that equal or start with the query, or have a word that does
+const getPostedMatches = (field: FieldIndex, query: string) =>
+  addTokenPrefixMatches(
+    field,
+    query,
+    new Set(getPrefixRange(field.sortedValues, ({ text }) => text, query))
+  );
+
+// Values the postings missed can only have the query inside a word
+const getMatchType = (
+  posted: Set<IndexedValue>,
+  value: IndexedValue,
+  query: string
+): AutocompleteMatchType | null =>
+  posted.has(value)
+    ? getAutocompleteMatchType(value.text, query)
+    : value.text.includes(query)
+      ? "contains"
+      : null;
+
+/**
+ * Finds devices whose field values equal, start with or contain the query.
+ * Values that equal or start with the query come from the postings; the
+ * rest only get a "contains" check.
+ *
+ * @param index - The catalog's search index
+ * @param query - What the user has typed so far (lowercase)
+ * @returns Best match type by device position
+ */
+export const getAutocompleteMatches = (
+  index: SearchIndex,
+  query: string
+): Map<number, AutocompleteMatchType> => {
+  const matches = new Map<number, AutocompleteMatchType>();
+
+  for (const field of index.fields) {
+    const posted = getPostedMatches(field, query);
+    for (const value of field.values) {
+      const type = getMatchType(posted, value, query);
+      if (!type) continue;
+
+      for (const position of value.devices) {
+        const current = matches.get(position);
+        if (!current || MATCH_TYPE_RANK[type] > MATCH_TYPE_RANK[current]) {
+          matches.set(position, type);
+        }
+      }
+    }
+  }
+
+  return matches;
+};
+
+/**
+ * A distinct value of one field that matches an autocomplete query.
+ */
+export interface ValueMatch {
+  value: string; // As it appears in the catalog, e.g. "UniFi Protect"
+  type: AutocompleteMatchType;
+  devices: number[]; // Positions of the devices that have it
+}
+
+/**
+ * Finds the distinct values of one field that equal, start with or contain
+ * the query, e.g. product lines or SKUs to suggest on their own. Like
+ * getAutocompleteMatches, it takes exact and prefix matches from the
+ * postings and only checks the rest for the query inside a word.
+ *
+ * @param index - The catalog's search index
+ * @param fieldName - FREE_TEXT_FIELDS name, e.g. "line"
+ * @param query - What the user has typed so far (lowercase)
+ * @returns Matches, best match type first, then in catalog order
+ */
+export const getFieldValueMatches = (
+  index: SearchIndex,
+  fieldName: string,
+  query: string
+): ValueMatch[] => {
+  const field = index.fields.find(({ name }) => name === fieldName);
+  if (!field) return [];
+
+  const posted = getPostedMatches(field, query);
+  const matches: ValueMatch[] = [];
+  for (const value of field.values) {
+    const type = getMatchType(posted, value, query);
+    if (type) matches.push({ value: value.raw, type, devices: value.devices });
+  }
+
+  return matches.sort(
+    (a, b) =>
+      MATCH_TYPE_RANK[b.type] - MATCH_TYPE_RANK[a.type] ||
+      a.devices[0] - b.devices[0]
+  );
+};
+
+/**
+ * Every distinct word in the index, for spelling suggestions. Identifier
+ * fields are left out; suggesting hex IDs or FCC codes would just be noise.
+ *
+ * @param index - The catalog's search index
+ * @returns Distinct tokens of at least three characters
+ */
+export const getIndexVocabulary = (index: SearchIndex): Set<string> => {
+  const vocabulary = new Set<string>();
+  for (const field of index.fields) {
+    if (field.identifier) continue;
+    for (const token of field.tokens.keys()) {
+      if (token.length >= 3) vocabulary.add(token);
+    }
+  }
+  return vocabulary;
+};
@@ -0,0 +1,92 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { loadFixtureDevices } from "../test/fixtures";
+import type { Device } from "../types/device";
+import { evaluateSearchQuery, parseSearchQuery } from "./searchQuery";
+
+describe("parseSearchQuery", () => {
+  it("parses field terms, quoted values and numeric comparisons", () => {
+    expect(parseSearchQuery('line:"UniFi Switching" ports>=24')).toEqual({
+      root: {
+        type: "and",
+        children: [
+          {
+            type: "field",
+            field: "line",
+            operator: ":",
+            value: "UniFi Switching",
+          },
+          { type: "field", field: "ports", operator: ">=", value: 24 },
+        ],
+      },
+      errors: [],
+    });
+  });
+
+  it("groups OR alternatives and negations", () => {
+    expect(parseSearchQuery("(a | b) -c").root).toEqual({
+      type: "and",
+      children: [
+        {
+          type: "or",
+          children: [
+            { type: "text", value: "a" },
+            { type: "text", value: "b" },
+          ],
+        },
+        { type: "not", child: { type: "text", value: "c" } },
+      ],
+    });
+    expect(parseSearchQuery("NOT cap:poe").root).toEqual({
+      type: "not",
+      child: { type: "field", field: "cap", operator: ":", value: "poe" },
+    });
+  });
+
+  it("reports invalid terms with their position and ignores them", () => {
+    expect(parseSearchQuery("ports>=lots")).toEqual({
+      root: null,
+      errors: [
+        { message: '"ports" expects a number, got "lots"', start: 0, end: 11 },
+      ],
+    });
+    expect(parseSearchQuery("foo:bar").errors[0]).toMatchObject({
+      start: 0,
+      end: 7,
+    });
+  });
+
+  it("keeps an unclosed quote as a phrase and reports it", () => {
+    const { root, errors } = parseSearchQuery('"flex mini');
+    expect(root).toEqual({ type: "text", value: "flex mini" });
+    expect(errors[0].message).toBe("Missing closing quote");
+  });
+
+  it("returns no tree for an empty query", () => {
+    expect(parseSearchQuery("   ")).toEqual({ root: null, errors: [] });
+  });
+});
+
+describe("evaluateSearchQuery", () => {
+  let devices: Device[];
+  const matching = (query: string) =>
+    devices
+      .filter((device) =>
+        evaluateSearchQuery(device, parseSearchQuery(query).root)
+      )
+      .map((device) => device.sku);
+
+  beforeAll(async () => {
+    devices = await loadFixtureDevices();
+  });
+
+  it("filters the fixture catalog by fields and operators", () => {
+    expect(matching("sku=U6-Pro")).toEqual(["U6-Pro"]);
+    expect(matching("sku:*-pro")).toEqual(["U6-Pro", "UDM-Pro"]);
+    expect(matching("-sku:*-pro")).toEqual([
+      "USW-24-PoE",
+      "UVC-G4-Bullet",
+      "LBE-5AC-Gen2",
+    ]);
+    expect(matching("u6 OR bullet")).toEqual(["U6-Pro", "UVC-G4-Bullet"]);
+  });
+});
@@ -0,0 +1,650 @@
+import type { Device } from "../types/device";
+import { scoreWord, type WeightedField } from "./fuzzyMatch";
+
+/**
+ * Comparison operators understood in `field<op>value` terms.
+ */
+export type ComparisonOperator = ":" | "=" | ">" | ">=" | "<" | "<=";
+
+/**
+ * A parsed search query. Free text and field terms are combined with implicit
+ * AND, `OR` (or `|`) groups and `-`/`NOT` negation.
+ */
+export type SearchNode =
+  | { type: "and"; children: SearchNode[] }
+  | { type: "or"; children: SearchNode[] }
+  | { type: "not"; child: SearchNode }
+  | { type: "text"; value: string }
+  | {
+      type: "field";
+      field: string;
+      operator: ComparisonOperator;
+      value: string | number;
+    };
+
+/**
+ * A problem found while parsing, with the character range it covers.
+ */
+export interface SearchQueryError {
+  message: string;
+  start: number; // Index of the first offending character
+  end: number; // Index just past the offending text
+}
+
+/**
+ * Result of parsing a search query.
+ */
+export interface ParsedSearchQuery {
+  root: SearchNode | null; // null when the query is empty (matches everything)
+  errors: SearchQueryError[]; // Invalid parts are reported here and ignored when matching
+}
+
+// How a searchable field is read from a device and compared
+type SearchFieldDefinition =
+  | { kind: "text"; get: (device: Device) => string | undefined }
+  | { kind: "list"; get: (device: Device) => string[] | undefined }
+  | { kind: "tag"; get: (device: Device) => string[] | undefined } // Whole-value matches only
+  | { kind: "number"; get: (device: Device) => number | undefined };
+
+// Drops missing entries from a list of optional values
+const compactList = (values: (string | undefined)[]): string[] =>
+  values.filter((value): value is string => !!value);
+
+/**
+ * Fields that can be used as `field:value` in the search bar.
+ */
+export const SEARCH_FIELDS: Record<string, SearchFieldDefinition> = {
+  name: { kind: "text", get: (device) => device.product?.name },
+  abbrev: { kind: "text", get: (device) => device.product?.abbrev },
+  line: { kind: "text", get: (device) => device.line?.name },
+  sku: { kind: "text", get: (device) => device.sku },
+  id: { kind: "text", get: (device) => device.id },
+  sysid: {
+    kind: "list",
+    get: (device) =>
+      compactList([
+        device.sysid,
+        ...(device.sysids || []),
+        device.unifi?.network?.systemIdHexadecimal,
+      ]),
+  },
+  guid: { kind: "list", get: (device) => device.guids },
+  fcc: { kind: "text", get: (device) => device.compliance?.fcc },
+  legacy: {
+    kind: "list",
+    get: (device) => [
+      ...(device.unifi?.nameLegacy || []),
+      ...(device.uisp?.nameLegacy || []),
+    ],
+  },
+  chipset: { kind: "text", get: (device) => device.unifi?.network?.chipset },
+  shortname: { kind: "list", get: (device) => device.shortnames },
+  model: { kind: "text", get: (device) => device.unifi?.network?.model },
+  type: { kind: "text", get: (device) => device.unifi?.network?.type },
+  cap: {
+    kind: "tag",
+    get: (device) => device.unifi?.network?.deviceCapabilities,
+  },
+  ports: {
+    kind: "number",
+    get: (device) => device.unifi?.network?.numberOfPorts,
+  },
+  power: {
+    kind: "number",
+    get: (device) => device.unifi?.network?.power?.capacity,
+  },
+  speed: {
+    kind: "number",
+    get: (device) => device.unifi?.network?.ethernetMaxSpeedMegabitsPerSecond,
+  },
+};
+
+// Alternative spellings accepted for field names
+const FIELD_ALIASES: Record<string, string> = {
+  product: "name",
+  fccid: "fcc",
+  namelegacy: "legacy",
+  capability: "cap",
+  port: "ports",
+};
+
+type Token =
+  | {
+      kind: "lparen" | "rparen" | "or" | "and" | "not";
+      start: number;
+      end: number;
+    }
+  | { kind: "term"; text: string; start: number; end: number };
+
+const TERM_PATTERN = /^([a-zA-Z]+)(>=|<=|:|=|>|<)([\s\S]*)$/;
+
+// Splits the query into parentheses, operators and terms. Quotes may appear
+// anywhere in a term (e.g. line:"UniFi Switching") and keep spaces together.
+function tokenize(query: string, errors: SearchQueryError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({
+        kind: char === "(" ? "lparen" : "rparen",
+        start: i,
+        end: i + 1,
+      });
+      i++;
+    } else if (char === "|") {
+      tokens.push({ kind: "or", start: i, end: i + 1 });
+      i++;
+    } else if (
+      char === "-" &&
+      i + 1 < query.length &&
+      !/[\s)]/.test(query[i + 1])
+    ) {
+      tokens.push({ kind: "not", start: i, end: i + 1 });
+      i++;
+    } else {
+      const start = i;
+      let inQuote = false;
+      while (i < query.length && (inQuote || !/[\s()|]/.test(query[i]))) {
+        if (query[i] === '"') inQuote = !inQuote;
+        i++;
+      }
+      if (inQuote) {
+        errors.push({ message: "Missing closing quote", start, end: i });
+      }
+
+      const text = query.slice(start, i);
+      if (text === "OR") tokens.push({ kind: "or", start, end: i });
+      else if (text === "AND") tokens.push({ kind: "and", start, end: i });
+      else if (text === "NOT") tokens.push({ kind: "not", start, end: i });
+      else tokens.push({ kind: "term", text, start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+const unquote = (value: string): string =>
+  value.replace(/^"/, "").replace(/"$/, "");
+
+// Turns a term token into a text or field node, reporting invalid fields/values
+function buildTerm(
+  token: Extract<Token, { kind: "term" }>,
+  errors: SearchQueryError[]
+): SearchNode | null {
+  const match = TERM_PATTERN.exec(token.text);
+
+  if (!match) {
+    const value = unquote(token.text).trim();
+    return value ? { type: "text", value } : null;
+  }
+
+  const [, rawField, operator, rawValue] = match;
+  const field = FIELD_ALIASES[rawField.toLowerCase()] ?? rawField.toLowerCase();
+  const definition = SEARCH_FIELDS[field];
+  const value = unquote(rawValue).trim();
+  const report = (message: string) => {
+    errors.push({ message, start: token.start, end: token.end });
+    return null;
+  };
+
+  if (!definition) {
+    return report(
+      `Unknown field "${rawField}". Try: ${Object.keys(SEARCH_FIELDS).join(", ")}`
+    );
+  }
+  if (!value) {
+    return report(`"${rawField}${operator}" needs a value`);
+  }
+
+  if (definition.kind === "number") {
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+      return report(`"${rawField}" expects a number, got "${value}"`);
+    }
+    return {
+      type: "field",
+      field,
+      operator: operator as ComparisonOperator,
+      value: number,
+    };
+  }
+
+  if (operator !== ":" && operator !== "=") {
+    return report(`"${rawField}" can't be compared with ${operator}`);
+  }
+
+  return { type: "field", field, operator, value };
+}
+
+// Recursive descent parser over the token list with error recovery:
+// invalid parts are reported and dropped so the rest of the query still works
+class QueryParser {
+  private position = 0;
+  private readonly tokens: Token[];
+  private readonly errors: SearchQueryError[];
+
+  constructor(tokens: Token[], errors: SearchQueryError[]) {
+    this.tokens = tokens;
+    this.errors = errors;
+  }
+
+  parse(): SearchNode | null {
+    const parts: SearchNode[] = [];
+
+    while (this.peek()) {
+      const node = this.parseOr();
+      if (node) parts.push(node);
+
+      // Anything left at the top level is an unmatched ")"
+      const stray = this.peek();
+      if (stray) {
+        this.errors.push({
+          message: 'Unexpected ")"',
+          start: stray.start,
+          end: stray.end,
+        });
+        this.position++;
+      }
+    }
+
+    return combine("and", parts);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(): SearchNode | null {
+    const branches: SearchNode[] = [];
+    const first = this.parseAnd();
+    if (first) branches.push(first);
+
+    while (this.peek()?.kind === "or") {
+      const operator = this.tokens[this.position++];
+      const next = this.parseAnd();
+      if (next) {
+        branches.push(next);
+      } else {
+        this.errors.push({
+          message: "OR needs a term on both sides",
+          start: operator.start,
+          end: operator.end,
+        });
+      }
+    }
+
+    return combine("or", branches);
+  }
+
+  private parseAnd(): SearchNode | null {
+    const children: SearchNode[] = [];
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.kind === "or" || token.kind === "rparen") break;
+      if (token.kind === "and") {
+        this.position++;
+        continue;
+      }
+      const node = this.parseUnary();
+      if (node) children.push(node);
+    }
+
+    return combine("and", children);
+  }
+
+  private parseUnary(): SearchNode | null {
+    const token = this.peek()!;
+
+    if (token.kind === "not") {
+      this.position++;
+      const next = this.peek();
+      const operand =
+        next && next.kind !== "or" && next.kind !== "rparen"
+          ? this.parseUnary()
+          : null;
+      if (!operand) {
+        this.errors.push({
+          message: "Nothing to exclude",
+          start: token.start,
+          end: token.end,
+        });
+        return null;
+      }
+      return { type: "not", child: operand };
+    }
+
+    if (token.kind === "lparen") {
+      this.position++;
+      const inner = this.parseOr();
+      const closing = this.peek();
+      if (closing?.kind === "rparen") {
+        this.position++;
+      } else {
+        this.errors.push({
+          message: 'Missing closing ")"',
+          start: token.start,
+          end: token.end,
+        });
+      }
+      if (!inner) {
+        this.errors.push({
+          message: "Empty group",
+          start: token.start,
+          end: closing?.end ?? token.end,
+        });
+      }
+      return inner;
+    }
+
+    this.position++;
+    return token.kind === "term" ? buildTerm(token, this.errors) : null;
+  }
+}
+
+// Collapses single-child groups and drops empty ones
+const combine = (
+  type: "and" | "or",
+  children: SearchNode[]
+): SearchNode | null => {
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+  return { type, children };
+};
+
+/**
+ * Parses a search bar query into a tree of conditions.
+ *
+ * Syntax:
+ * - `poe switch` - free text; every word must match name, line, SKU, id or shortnames
+ * - `"Dream Machine"` - quoted phrase
+ * - `line:"UniFi Switching"`, `sku:*-EU` - field contains value; `*` is a wildcard
+ * - `sku=USW-24` - field equals value exactly (capabilities always match whole values: `cap:poe`)
+ * - `ports>=24`, `power>400`, `speed:10000` - numeric comparisons
+ * - `-sku:*-EU`, `NOT cap:poe` - negation
+ * - `cap:poe OR cap:wifi6`, `(a | b) c` - OR groups
+ *
+ * Invalid parts (unknown fields, non-numeric values, unbalanced quotes or
+ * parentheses) are reported in `errors` and ignored when matching.
+ *
+ * @param query - Raw query text from the search bar
+ * @returns The parsed tree (null for an empty query) and any syntax errors
+ *
+ * @example
+ * ```typescript
+ * parseSearchQuery('line:"UniFi Switching" ports>=24');
+ * // { root: { type: "and", children: [field line, field ports] }, errors: [] }
+ *
+ * parseSearchQuery("ports>=lots").errors;
+ * // [{ message: '"ports" expects a number, got "lots"', start: 0, end: 11 }]
+ * ```
+ */
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const errors: SearchQueryError[] = [];
+  const tokens = tokenize(query, errors);
+  const root = new QueryParser(tokens, errors).parse();
+  return { root, errors };
+};
+
+// Case-insensitive match; a value containing * matches the whole field as a glob
+const matchesText = (
+  candidate: string,
+  value: string,
+  exact: boolean
+): boolean => {
+  const haystack = candidate.toLowerCase();
+  const needle = value.toLowerCase();
+
+  if (needle.includes("*")) {
+    const pattern = needle
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    return new RegExp(`^${pattern}$`).test(haystack);
+  }
+
+  return exact ? haystack === needle : haystack.includes(needle);
+};
+
+const compareNumbers = (
+  actual: number,
+  operator: ComparisonOperator,
+  expected: number
+): boolean => {
+  switch (operator) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+};
+
+/**
+ * A field searched by free text terms, with its relevance weight.
+ */
+export interface FreeTextField {
+  name: string;
+  label: string; // How the field is named in "matched FCC ID ..." notes
+  weight: number; // Higher means a hit here ranks the device higher
+  identifier?: boolean; // Not shown on result rows, so hits on it get called out
+  get: (device: Device) => (string | undefined)[];
+}
+
+/**
+ * Fields searched by free text terms, weighted so an exact SKU or
+ * abbreviation hit outranks a word that only appears in the line name.
+ */
+export const FREE_TEXT_FIELDS: FreeTextField[] = [
+  { name: "sku", label: "SKU", weight: 10, get: (device) => [device.sku] },
+  {
+    name: "abbrev",
+    label: "abbreviation",
+    weight: 10,
+    get: (device) => [device.product?.abbrev],
+  },
+  {
+    name: "name",
+    label: "name",
+    weight: 6,
+    get: (device) => [device.product?.name],
+  },
+  {
+    name: "shortname",
+    label: "short name",
+    weight: 5,
+    get: (device) => device.shortnames || [],
+  },
+  {
+    name: "fcc",
+    label: "FCC ID",
+    weight: 8,
+    identifier: true,
+    get: (device) => [device.compliance?.fcc],
+  },
+  {
+    name: "unifiLegacy",
+    label: "UniFi legacy name",
+    weight: 5,
+    identifier: true,
+    get: (device) => device.unifi?.nameLegacy || [],
+  },
+  {
+    name: "uispLegacy",
+    label: "UISP legacy name",
+    weight: 5,
+    identifier: true,
+    get: (device) => device.uisp?.nameLegacy || [],
+  },
+  {
+    name: "id",
+    label: "ID",
+    weight: 3,
+    identifier: true,
+    get: (device) => [device.sysid || device.id],
+  },
+  {
+    name: "sysids",
+    label: "sysid",
+    weight: 4,
+    identifier: true,
+    get: (device) => device.sysids || [],
+  },
+  {
+    name: "systemIdHex",
+    label: "system ID",
+    weight: 4,
+    identifier: true,
+    get: (device) => [device.unifi?.network?.systemIdHexadecimal],
+  },
+  {
+    name: "guid",
+    label: "GUID",
+    weight: 4,
+    identifier: true,
+    get: (device) => device.guids || [],
+  },
+  {
+    name: "line",
+    label: "product line",
+    weight: 2,
+    get: (device) => [device.line?.name],
+  },
+  // Many devices share a chipset, so it barely moves the ranking
+  {
+    name: "chipset",
+    label: "chipset",
+    weight: 1,
+    identifier: true,
+    get: (device) => [device.unifi?.network?.chipset],
+  },
+];
+
+const getFreeTextFields = (device: Device): WeightedField[] =>
+  FREE_TEXT_FIELDS.flatMap(({ weight, get }) =>
+    get(device).flatMap((text) => (text ? [{ text, weight }] : []))
+  );
+
+// Scores a free text term; glob patterns match like field terms
+const scoreText = (device: Device, value: string): number | null => {
+  const fields = getFreeTextFields(device);
+
+  if (value.includes("*")) {
+    const hit = fields.find((field) => matchesText(field.text, value, false));
+    return hit ? hit.weight : null;
+  }
+
+  const score = scoreWord(value, fields);
+  return score > 0 ? score : null;
+};
+
+const matchesField = (
+  device: Device,
+  node: Extract<SearchNode, { type: "field" }>
+): boolean => {
+  const definition = SEARCH_FIELDS[node.field];
+  const exact = node.operator === "=" || definition.kind === "tag";
+
+  if (definition.kind === "number") {
+    const actual = definition.get(device);
+    return (
+      typeof actual === "number" &&
+      compareNumbers(actual, node.operator, node.value as number)
+    );
+  }
+
+  const actual = definition.get(device);
+  const candidates = Array.isArray(actual) ? actual : actual ? [actual] : [];
+  return candidates.some((candidate) =>
+    matchesText(candidate, String(node.value), exact)
+  );
+};
+
+/**
+ * Scores how relevant a device is to a parsed query.
+ * Free text words add up their best weighted field match; field terms and
+ * negations only filter and add nothing. OR groups take their best branch.
+ *
+ * @param device - The device to score
+ * @param node - Root of a parsed query; null matches every device
+ * @returns The relevance score, or null if the device doesn't match
+ *
+ * @example
+ * ```typescript
+ * const { root } = parseSearchQuery("u6-pro cap:wifi6");
+ * scoreSearchQuery(device, root); // 100 for the U6-Pro, null for most others
+ * ```
+ */
+export const scoreSearchQuery = (
+  device: Device,
+  node: SearchNode | null
+): number | null => {
+  if (!node) return 0;
+
+  switch (node.type) {
+    case "and": {
+      let total = 0;
+      for (const child of node.children) {
+        const score = scoreSearchQuery(device, child);
+        if (score === null) return null;
+        total += score;
+      }
+      return total;
+    }
+    case "or": {
+      let best: number | null = null;
+      for (const child of node.children) {
+        const score = scoreSearchQuery(device, child);
+        if (score !== null && (best === null || score > best)) best = score;
+      }
+      return best;
+    }
+    case "not":
+      return scoreSearchQuery(device, node.child) === null ? 0 : null;
+    case "text":
+      return scoreText(device, node.value);
+    case "field":
+      return matchesField(device, node) ? 0 : null;
+  }
+};
+
+/**
+ * Checks whether a device satisfies a parsed query.
+ *
+ * @param device - The device to test
+ * @param node - Root of a parsed query; null matches every device
+ * @returns true if the device matches
+ */
+export const evaluateSearchQuery = (
+  device: Device,
+  node: SearchNode | null
+): boolean => scoreSearchQuery(device, node) !== null;
+
+/**
+ * Lists the plain free text words in a query, skipping negated terms and
+ * glob patterns. Used to suggest spelling corrections.
+ *
+ * @param node - Root of a parsed query
+ * @returns Free text values in query order
+ */
+export const collectFreeTextTerms = (node: SearchNode | null): string[] => {
+  if (!node) return [];
+  switch (node.type) {
+    case "and":
+    case "or":
+      return node.children.flatMap(collectFreeTextTerms);
+    case "text":
+      return node.value.includes("*") ? [] : [node.value];
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,109 @@
+import type { SearchSynonyms } from "../config/searchSynonyms";
+import { parseSearchQuery, type SearchNode } from "./searchQuery";
+
+// Parsed expansions per dictionary, so keystrokes don't re-parse them
+const parsedExpansions = new WeakMap<
+  SearchSynonyms,
+  Map<string, SearchNode[]>
+>();
+
+const getExpansions = (
+  synonyms: SearchSynonyms,
+  term: string
+): SearchNode[] => {
+  const key = term.trim().toLowerCase();
+  if (!Object.hasOwn(synonyms, key)) return [];
+
+  let cache = parsedExpansions.get(synonyms);
+  if (!cache) {
+    cache = new Map();
+    parsedExpansions.set(synonyms, cache);
+  }
+  let expansions = cache.get(key);
+  if (!expansions) {
+    // Broken expansions are dropped rather than breaking the whole search
+    expansions = synonyms[key]
+      .map((expansion) => parseSearchQuery(expansion))
+      .filter(({ errors }) => errors.length === 0)
+      .flatMap(({ root }) => (root ? [root] : []));
+    cache.set(key, expansions);
+  }
+  return expansions;
+};
+
+/**
+ * Merges a team dictionary over another one. Keys are lowercased; a team
+ * entry replaces the base entry for the same term, and an empty list removes it.
+ *
+ * @param base - Dictionary to start from (usually DEFAULT_SEARCH_SYNONYMS)
+ * @param overrides - Team-specific entries
+ * @returns A new dictionary
+ *
+ * @example
+ * ```typescript
+ * mergeSearchSynonyms(DEFAULT_SEARCH_SYNONYMS, { lab: ['"USW-Lite-8-PoE"'], nvr: [] });
+ * // Adds "lab", drops the bundled "nvr" entry
+ * ```
+ */
+export const mergeSearchSynonyms = (
+  base: SearchSynonyms,
+  overrides: SearchSynonyms
+): SearchSynonyms => {
+  const merged: Record<string, readonly string[]> = { ...base };
+  for (const [term, expansions] of Object.entries(overrides)) {
+    const key = term.trim().toLowerCase();
+    if (!key) continue;
+    if (expansions.length === 0) {
+      delete merged[key];
+    } else {
+      merged[key] = expansions;
+    }
+  }
+  return merged;
+};
+
+/**
+ * Expands free text terms that have synonyms into OR groups of the term and
+ * its expansions, so "camera" also finds `UVC` and `line:"UniFi Protect"`.
+ * Expansions are not expanded again, and negated terms are expanded too
+ * ("-camera" hides every camera).
+ *
+ * @param node - Root of a parsed query
+ * @param synonyms - Dictionary to expand with
+ * @returns The expanded tree; the same node if nothing had synonyms
+ *
+ * @example
+ * ```typescript
+ * expandSearchSynonyms(parseSearchQuery("poe switch").root, DEFAULT_SEARCH_SYNONYMS);
+ * // (poe OR cap:poe) AND (switch OR USW OR US OR line:"UniFi Switching")
+ * ```
+ */
+export const expandSearchSynonyms = (
+  node: SearchNode | null,
+  synonyms: SearchSynonyms
+): SearchNode | null => {
+  if (!node) return null;
+  switch (node.type) {
+    case "and":
+    case "or": {
+      const children = node.children.map((child) =>
+        expandSearchSynonyms(child, synonyms)!
+      );
+      return children.some((child, i) => child !== node.children[i])
+        ? { type: node.type, children }
+        : node;
+    }
+    case "not": {
+      const child = expandSearchSynonyms(node.child, synonyms)!;
+      return child !== node.child ? { type: "not", child } : node;
+    }
+    case "text": {
+      const expansions = getExpansions(synonyms, node.value);
+      return expansions.length > 0
+        ? { type: "or", children: [node, ...expansions] }
+        : node;
+    }
+    default:
+      return node;
+  }
+};
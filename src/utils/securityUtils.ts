@@ -194,6 +194,45 @@ export const isSafeInput = (input: string, maxLength = 500): boolean => {
   return safePattern.test(sanitized);
 };
 
+/**
+ * Sanitizes a structured search query (see parseSearchQuery) without touching its syntax.
+ * Unlike sanitizeSearchQuery, keeps quotes, comparison operators and the OR/AND/NOT keywords,
+ * and returns decoded text rather than HTML-escaped text (the query is never rendered as HTML).
+ *
+ * @param query - The search query to sanitize
+ * @param maxLength - Maximum allowed length (default: 200)
+ * @returns The sanitized query text
+ *
+ * @example
+ * ```typescript
+ * sanitizeStructuredQuery('ports>=24 OR line:"UniFi Switching"'); // unchanged
+ * sanitizeStructuredQuery("cap:poe<img src=x onerror=alert(1)>"); // "cap:poe"
+ * ```
+ */
+export const sanitizeStructuredQuery = (
+  query: string,
+  maxLength = 200
+): string => {
+  if (typeof query !== "string") {
+    return "";
+  }
+
+  // Strip any markup with DOMPurify, reading back the plain text content
+  const fragment = DOMPurify.sanitize(query.substring(0, maxLength), {
+    ALLOWED_TAGS: [],
+    ALLOWED_ATTR: [],
+    ALLOW_DATA_ATTR: false,
+    RETURN_DOM_FRAGMENT: true,
+  });
+  let sanitized = fragment.textContent || "";
+
+  // Remove control characters
+  sanitized = sanitized.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, "");
+
+  // Normalize whitespace
+  return sanitized.replace(/\s+/g, " ").trim();
+};
+
 /**
  * Sanitizes a search query by removing dangerous characters while preserving search functionality.
  * Uses DOMPurify extensively, then applies search-specific cleaning.
@@ -8,6 +8,9 @@ import type {
   DeviceUnifi,
   DeviceUISP,
 } from "../types/device";
+import type { DegradedDevice, DeviceValidationIssue } from "../types/catalog";
+import { ValidationError } from "./appErrors";
+import { detectSchemaDrift, type SchemaDriftReport } from "./schemaDrift";
 
 /**
  * What you get back from schema validation operations
@@ -162,6 +165,14 @@ export function safeGetObject<T extends Record<string, unknown>>(
     : fallback;
 }
 
+/**
+ * A device rebuilt from safe defaults, with the fields that had to be filled in
+ */
+export interface SafeDeviceResult {
+  device: Device;
+  substitutedFields: string[]; // Dotted paths whose raw value was missing or invalid
+}
+
 /**
  * Creates a validated device with safe defaults for missing properties
  */
@@ -178,30 +189,62 @@ export function createSafeDevice(rawDevice: unknown): Device {
     validation.error
   );
 
+  return rebuildDevice(rawDevice).device;
+}
+
+/**
+ * Rebuilds a device that failed validation, substituting safe defaults for
+ * missing or mistyped required fields and keeping optional ones that look usable.
+ * Records which required fields were substituted so the UI can flag the device.
+ * Pass the device's position in the catalog so devices without an id still
+ * get distinct ones ("unknown-device-3"), since degraded devices are looked up
+ * by id.
+ */
+export function rebuildDevice(
+  rawDevice: unknown,
+  index?: number
+): SafeDeviceResult {
+  const substitutedFields: string[] = [];
+
+  const requiredString = (path: string, fallback: string): string => {
+    const value = safeGet<unknown>(rawDevice, path, undefined);
+    if (typeof value !== "string") substitutedFields.push(path);
+    return safeGetString(rawDevice, path, fallback);
+  };
+
+  const requiredArray = <T>(path: string): T[] => {
+    const value = safeGet<unknown>(rawDevice, path, undefined);
+    if (!Array.isArray(value)) substitutedFields.push(path);
+    return safeGetArray<T>(rawDevice, path, []);
+  };
+
   const safeDevice: Partial<Device> = {
-    id: safeGetString(rawDevice, "id", "unknown-device"),
-    guids: safeGetArray(rawDevice, "guids", []),
+    id: requiredString(
+      "id",
+      index === undefined ? "unknown-device" : `unknown-device-${index}`
+    ),
+    guids: requiredArray("guids"),
     icon: {
-      id: safeGetString(rawDevice, "icon.id", "unknown-icon"),
-      resolutions: safeGetArray(rawDevice, "icon.resolutions", []),
+      id: requiredString("icon.id", "unknown-icon"),
+      resolutions: requiredArray("icon.resolutions"),
     },
     images: {
-      default: safeGetString(rawDevice, "images.default", ""),
-      nopadding: safeGetString(rawDevice, "images.nopadding", ""),
-      topology: safeGetString(rawDevice, "images.topology", ""),
+      default: requiredString("images.default", ""),
+      nopadding: requiredString("images.nopadding", ""),
+      topology: requiredString("images.topology", ""),
     },
     line: {
-      id: safeGetString(rawDevice, "line.id", "unknown-line"),
-      name: safeGetString(rawDevice, "line.name", "Unknown Line"),
+      id: requiredString("line.id", "unknown-line"),
+      name: requiredString("line.name", "Unknown Line"),
     },
     product: {
-      abbrev: safeGetString(rawDevice, "product.abbrev", ""),
-      name: safeGetString(rawDevice, "product.name", "Unknown Product"),
+      abbrev: requiredString("product.abbrev", ""),
+      name: requiredString("product.name", "Unknown Product"),
     },
-    shortnames: safeGetArray(rawDevice, "shortnames", []),
-    sku: safeGetString(rawDevice, "sku", "unknown-sku"),
-    sysids: safeGetArray(rawDevice, "sysids", []),
-    triplets: safeGetArray(rawDevice, "triplets", []),
+    shortnames: requiredArray("shortnames"),
+    sku: requiredString("sku", "unknown-sku"),
+    sysids: requiredArray("sysids"),
+    triplets: requiredArray("triplets"),
   };
 
   // Add optional properties if they exist and are valid
@@ -267,24 +310,43 @@ export function createSafeDevice(rawDevice: unknown): Device {
     safeDevice.isARSupported = isARSupported;
   }
 
-  return safeDevice as Device;
+  return { device: safeDevice as Device, substitutedFields };
+}
+
+/**
+ * What you get back from processing a raw device response
+ */
+export interface ProcessedDeviceResponse {
+  devices: Device[]; // Validated devices, with safe fallbacks for invalid ones
+  version: string; // Catalog version, empty if missing
+  validationErrors: string[]; // One entry per device that failed validation
+  validationIssues: DeviceValidationIssue[]; // Every Zod issue, with path and raw value
+  degradedDevices: DegradedDevice[]; // Devices rebuilt with substituted fields
+  hasValidationErrors: boolean; // Whether any device failed validation
+  schemaDrift: SchemaDriftReport; // Raw fields the schema doesn't cover, and vice versa
 }
 
 /**
  * Processes a device response with validation and graceful handling
  */
-export function processDeviceResponse(rawResponse: unknown): {
-  devices: Device[];
-  validationErrors: string[];
-  hasValidationErrors: boolean;
-} {
+export function processDeviceResponse(
+  rawResponse: unknown
+): ProcessedDeviceResponse {
   const validation = validateDeviceResponse(rawResponse);
+  const rawDevices = safeGetArray(rawResponse, "devices", []);
+
+  // Zod strips keys it doesn't know, so compare the raw devices separately
+  const schemaDrift = detectSchemaDrift(rawDevices, DeviceSchema);
 
   if (validation.success && validation.data) {
     return {
       devices: validation.data.devices,
+      version: validation.data.version,
       validationErrors: [],
+      validationIssues: [],
+      degradedDevices: [],
       hasValidationErrors: false,
+      schemaDrift,
     };
   }
 
@@ -293,28 +355,82 @@ export function processDeviceResponse(rawResponse: unknown): {
     "Full response validation failed, attempting individual device validation"
   );
 
-  const rawDevices = safeGetArray(rawResponse, "devices", []);
   const validDevices: Device[] = [];
   const validationErrors: string[] = [];
+  const validationIssues: DeviceValidationIssue[] = [];
+  const degradedDevices: DegradedDevice[] = [];
 
   for (let i = 0; i < rawDevices.length; i++) {
-    const deviceValidation = validateDevice(rawDevices[i]);
-    if (deviceValidation.success && deviceValidation.data) {
-      validDevices.push(deviceValidation.data);
-    } else {
-      console.warn(
-        `Device at index ${i} validation failed:`,
-        deviceValidation.error
-      );
-      validationErrors.push(`Device ${i}: ${deviceValidation.error}`);
-      // Create a safe device as fallback
-      validDevices.push(createSafeDevice(rawDevices[i]));
+    const rawDevice = rawDevices[i];
+    const parsed = DeviceSchema.safeParse(rawDevice);
+    if (parsed.success) {
+      validDevices.push(parsed.data);
+      continue;
+    }
+
+    const error = `Device schema validation failed: ${parsed.error.message}`;
+    console.warn(`Device at index ${i} validation failed:`, error);
+    validationErrors.push(`Device ${i}: ${error}`);
+
+    // Keep each Zod issue with the raw value it complained about
+    const rawId = safeGet<unknown>(rawDevice, "id", undefined);
+    const deviceId = typeof rawId === "string" ? rawId : null;
+    for (const issue of parsed.error.issues) {
+      const path = issue.path.map(String).join(".");
+      validationIssues.push({
+        deviceIndex: i,
+        deviceId,
+        path,
+        message: issue.message,
+        received: path ? safeGet<unknown>(rawDevice, path, undefined) : rawDevice,
+      });
     }
+
+    // Create a safe device as fallback, remembering what had to be made up
+    const { device, substitutedFields } = rebuildDevice(rawDevice, i);
+    validDevices.push(device);
+    degradedDevices.push({ deviceId: device.id, substitutedFields });
   }
 
   return {
     devices: validDevices,
+    version: safeGetString(rawResponse, "version"),
     validationErrors,
+    validationIssues,
+    degradedDevices,
     hasValidationErrors: validationErrors.length > 0,
+    schemaDrift,
   };
 }
+
+/**
+ * Parses and validates a raw catalog payload as delivered by a CatalogSource.
+ * Accepts the response body as an ArrayBuffer or string (parsed as JSON here),
+ * or an already-parsed object. Runs inside the validation worker, and on the
+ * main thread only when workers are unavailable.
+ *
+ * @throws ValidationError if the body isn't JSON or has no devices list
+ */
+export function parseCatalogPayload(payload: unknown): ProcessedDeviceResponse {
+  let rawResponse = payload;
+
+  if (payload instanceof ArrayBuffer || typeof payload === "string") {
+    const text =
+      typeof payload === "string" ? payload : new TextDecoder().decode(payload);
+    try {
+      rawResponse = JSON.parse(text);
+    } catch (error) {
+      throw new ValidationError("Catalog response is not valid JSON", {
+        cause: error,
+      });
+    }
+  }
+
+  // Anything without a devices list isn't a catalog at all; fail loudly
+  // instead of rendering an empty list
+  if (!Array.isArray(safeGet<unknown>(rawResponse, "devices", null))) {
+    throw new ValidationError("Catalog payload has no devices list");
+  }
+
+  return processDeviceResponse(rawResponse);
+}
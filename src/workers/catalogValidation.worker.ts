@@ -0,0 +1,27 @@
+// Dedicated worker that parses and validates catalog payloads off the main thread.
+// Replies are structured-cloned back; errors are flattened to name + message.
+import type {
+  CatalogValidationRequest,
+  CatalogValidationResponse,
+} from "../types/catalog";
+import { parseCatalogPayload } from "../utils/validationUtils";
+
+self.onmessage = (event: MessageEvent<CatalogValidationRequest>) => {
+  const { id, payload } = event.data;
+  let response: CatalogValidationResponse;
+
+  try {
+    response = { id, ok: true, result: parseCatalogPayload(payload) };
+  } catch (error) {
+    response = {
+      id,
+      ok: false,
+      error: {
+        name: error instanceof Error ? error.name : "Error",
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+
+  self.postMessage(response);
+};
@@ -1,6 +1,7 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import { visualizer } from "rollup-plugin-visualizer";
+import { mockCatalogServer } from "./mock/catalogMockServer";
 
 /**
  * Vite configuration for Ubiquiti Viewer React app
@@ -9,14 +10,16 @@ import { visualizer } from "rollup-plugin-visualizer";
 export default defineConfig({
   plugins: [
     react(),
+    // Mock catalog endpoint for `vite dev` (see mock/catalogMockServer.ts)
+    mockCatalogServer(),
     // Bundle analyzer - generates report when ANALYZE=true
-    process.env.ANALYZE && visualizer({
+    !!process.env.ANALYZE && visualizer({
       filename: 'bundle-analysis.html',
       open: true,
       gzipSize: true,
       brotliSize: true,
     }),
-  ].filter(Boolean) as any,
+  ],
   css: {
     modules: {
       localsConvention: "camelCase", // Convert CSS class names to camelCase in JS